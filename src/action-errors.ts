@@ -0,0 +1,214 @@
+import type { Locator } from "playwright";
+import { z } from "zod";
+import { type ElementRefStore, StaleRefError } from "./ref-store";
+
+/**
+ * Why an action failed, as far as Playwright's call log tells
+ */
+export const actionErrorCauseSchema = z.enum([
+  "detached",
+  "covered",
+  "disabled",
+  "not_visible",
+  "outside_viewport",
+  "not_editable",
+  "navigation_interrupted",
+]);
+
+export type ActionErrorCause = z.infer<typeof actionErrorCauseSchema>;
+
+/**
+ * Structured description of a failed action (ActionResult.errorDetail)
+ */
+export interface ActionErrorDetail {
+  cause: ActionErrorCause;
+  /** Short description, e.g. Element is covered by div.modal-backdrop */
+  message: string;
+  /** What to try next */
+  suggestion: string;
+  /** Ref of the covering element, or a selector when it has none (covered only) */
+  coveredBy?: string;
+}
+
+/**
+ * An action failure translated from Playwright's error and call log
+ * The original error is kept as cause.
+ */
+export class ActionError extends Error {
+  readonly detail: ActionErrorDetail;
+
+  constructor(detail: ActionErrorDetail, original: Error) {
+    super(`${detail.message}. ${detail.suggestion}`, { cause: original });
+    this.name = "ActionError";
+    this.detail = detail;
+  }
+}
+
+// Call log lines that identify each cause. Playwright retries actions, so
+// the log can mention several; the last one is why it finally gave up.
+const CAUSE_PATTERNS: Array<[ActionErrorCause, RegExp]> = [
+  [
+    "detached",
+    /element is not attached to the dom|element was detached from the dom|node is detached from document/gi,
+  ],
+  ["covered", /intercepts pointer events/gi],
+  ["disabled", /element is not enabled|element is disabled/gi],
+  ["not_visible", /element is not visible/gi],
+  ["outside_viewport", /element is outside of the viewport/gi],
+  [
+    "not_editable",
+    /element is not editable|element is not an <input>, <textarea>/gi,
+  ],
+  [
+    "navigation_interrupted",
+    /execution context was destroyed|frame was detached|interrupted by another navigation/gi,
+  ],
+];
+
+const SUGGESTIONS: Record<ActionErrorCause, string> = {
+  detached:
+    "It was re-rendered or removed; call getState() again and use the new ref",
+  covered:
+    "Close or dismiss the covering element first, or wait for it to go away",
+  disabled:
+    "Wait for it to become enabled, e.g. by filling in the required fields first",
+  not_visible:
+    "Open the menu, tab, or section that contains it, or wait for it to appear",
+  outside_viewport:
+    "Scroll its container or resize the viewport so the element can be reached",
+  not_editable:
+    "Target a text input, textarea, or contenteditable element that isn't read-only",
+  navigation_interrupted:
+    "Call getState() to see the page it navigated to before continuing",
+};
+
+const MESSAGES: Record<ActionErrorCause, string> = {
+  detached: "Element was removed from the page during the action",
+  covered: "Element is covered by another element",
+  disabled: "Element is disabled",
+  not_visible: "Element is not visible",
+  outside_viewport: "Element is outside the viewport",
+  not_editable: "Element is not editable",
+  navigation_interrupted: "The page navigated away during the action",
+};
+
+/**
+ * Find the cause of a Playwright error from its message and call log
+ */
+export function classifyActionError(message: string): ActionErrorCause | null {
+  let cause: ActionErrorCause | null = null;
+  let lastIndex = -1;
+  for (const [candidate, pattern] of CAUSE_PATTERNS) {
+    for (const match of message.matchAll(pattern)) {
+      if (match.index > lastIndex) {
+        lastIndex = match.index;
+        cause = candidate;
+      }
+    }
+  }
+  return cause;
+}
+
+/**
+ * Ref (or a selector) of the element on top of the target's center
+ */
+async function findCoveringElement(
+  locator: Locator,
+  refStore?: ElementRefStore,
+): Promise<string | null> {
+  const refs = (refStore?.getAllRefs() ?? [])
+    .filter((stored) => !stored.framePath?.length)
+    .map((stored) => ({ ref: stored.ref, xpath: stored.selectors.xpath }));
+  return locator
+    .evaluate(
+      (target, refs) => {
+        const box = target.getBoundingClientRect();
+        // Hit-test within the target's own tree; the document would only
+        // report the shadow host of a target inside a shadow root
+        const root = target.getRootNode() as Document | ShadowRoot;
+        const cover = root.elementFromPoint(
+          box.left + box.width / 2,
+          box.top + box.height / 2,
+        );
+        if (!cover || target.contains(cover)) {
+          return null;
+        }
+        // Closest element with a ref that is, or contains, the covering element
+        let best: { ref: string; node: Element } | null = null;
+        const findByXPath = (xpath: string): Node | null => {
+          try {
+            return document.evaluate(
+              xpath,
+              document,
+              null,
+              XPathResult.FIRST_ORDERED_NODE_TYPE,
+              null,
+            ).singleNodeValue;
+          } catch {
+            // Shadow-root paths (#shadow-root) aren't valid XPath
+            return null;
+          }
+        };
+        for (const { ref, xpath } of refs) {
+          const node = findByXPath(xpath);
+          if (
+            node instanceof Element &&
+            node.contains(cover) &&
+            (!best || best.node.contains(node))
+          ) {
+            best = { ref, node };
+          }
+        }
+        if (best) {
+          return best.ref;
+        }
+        const tag = cover.tagName.toLowerCase();
+        if (cover.id) {
+          return `${tag}#${cover.id}`;
+        }
+        const classes = Array.from(cover.classList).slice(0, 3);
+        return classes.length > 0 ? `${tag}.${classes.join(".")}` : tag;
+      },
+      refs,
+      { timeout: 1000 },
+    )
+    .catch(() => null);
+}
+
+/**
+ * Translate a failed action's error into an ActionError when the cause is
+ * recognized; other errors are returned unchanged
+ * locator is the element the action targeted (used to name a covering element).
+ */
+export async function translateActionError(
+  error: unknown,
+  context: { locator?: Locator; refStore?: ElementRefStore } = {},
+): Promise<unknown> {
+  if (
+    !(error instanceof Error) ||
+    error instanceof StaleRefError ||
+    error instanceof ActionError
+  ) {
+    return error;
+  }
+  const cause = classifyActionError(error.message);
+  if (!cause) {
+    return error;
+  }
+  const detail: ActionErrorDetail = {
+    cause,
+    message: MESSAGES[cause],
+    suggestion: SUGGESTIONS[cause],
+  };
+  if (cause === "covered" && context.locator) {
+    const coveredBy = await findCoveringElement(
+      context.locator,
+      context.refStore,
+    );
+    if (coveredBy) {
+      detail.coveredBy = coveredBy;
+      detail.message = `Element is covered by ${coveredBy}`;
+    }
+  }
+  return new ActionError(detail, error);
+}
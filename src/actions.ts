@@ -1,24 +1,59 @@
-import type { Page, Request } from "playwright";
+import type { CDPSession, Locator, Page, Request, Response } from "playwright";
+import { translateActionError } from "./action-errors";
+import { type ElementLocator, resolveElementLocator } from "./locator";
+import {
+  type NetworkRedactOptions,
+  redactBody,
+  redactHeaders,
+  resolveRedactRules,
+} from "./redact";
 import type { ElementRefStore } from "./ref-store";
 import type {
   ClickOptions,
+  DragOptions,
+  ElementInspection,
   NavigateOptions,
+  NavigationHistory,
+  NetworkActivity,
   NetworkEvent,
+  NetworkEventDetail,
+  PointerOptions,
+  ReloadOptions,
   TypeOptions,
+  UploadFile,
+  UploadOptions,
 } from "./types";
 
 /**
- * Get a locator for an element by ref or index using the ref store
- * The ref store contains selectors generated during getState()
+ * Get a locator for an element by semantic locator, ref, or index
+ * Refs and indexes resolve through selectors stored during getState()
  */
 async function getLocator(
   page: Page,
   refStore: ElementRefStore,
-  options: { ref?: string; index?: number },
+  options: { ref?: string; index?: number; locator?: ElementLocator },
 ) {
+  if (options.locator) {
+    return resolveElementLocator(page, options.locator);
+  }
   return await refStore.resolveLocator(page, options);
 }
 
+/**
+ * Run an action, turning Playwright failures with a known cause into
+ * ActionErrors (see translateActionError)
+ */
+async function withActionErrors<T>(
+  run: () => Promise<T>,
+  context: { locator?: Locator; refStore?: ElementRefStore } = {},
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    throw await translateActionError(error, context);
+  }
+}
+
 /**
  * Click an element
  */
@@ -34,11 +69,16 @@ export async function click(
     modifiers: options.modifiers,
   };
 
-  if (options.double) {
-    await locator.dblclick(clickOptions);
-  } else {
-    await locator.click(clickOptions);
-  }
+  await withActionErrors(
+    async () => {
+      if (options.double) {
+        await locator.dblclick(clickOptions);
+      } else {
+        await locator.click(clickOptions);
+      }
+    },
+    { locator, refStore },
+  );
 }
 
 /**
@@ -51,22 +91,27 @@ export async function type(
 ): Promise<void> {
   const locator = await getLocator(page, refStore, options);
 
-  // Clear existing text if requested
-  if (options.clear) {
-    await locator.clear();
-  }
+  await withActionErrors(
+    async () => {
+      // Clear existing text if requested
+      if (options.clear) {
+        await locator.clear();
+      }
 
-  // Type the text
-  if (options.delay) {
-    await locator.type(options.text, { delay: options.delay });
-  } else {
-    await locator.fill(options.text);
-  }
+      // Type the text
+      if (options.delay) {
+        await locator.type(options.text, { delay: options.delay });
+      } else {
+        await locator.fill(options.text);
+      }
 
-  // Press Enter if submit requested
-  if (options.submit) {
-    await locator.press("Enter");
-  }
+      // Press Enter if submit requested
+      if (options.submit) {
+        await locator.press("Enter");
+      }
+    },
+    { locator, refStore },
+  );
 }
 
 /**
@@ -76,9 +121,100 @@ export async function navigate(
   page: Page,
   options: NavigateOptions,
 ): Promise<void> {
-  await page.goto(options.url, {
-    waitUntil: options.waitUntil || "load",
-  });
+  await withActionErrors(() =>
+    page.goto(options.url, {
+      waitUntil: options.waitUntil || "load",
+    }),
+  );
+}
+
+/**
+ * Go back one entry in the tab's history
+ */
+export async function goBack(
+  page: Page,
+  options: Omit<NavigateOptions, "url"> = {},
+): Promise<void> {
+  // goBack() resolves to null both when there's nothing to go back to and
+  // for same-document (SPA) moves, so check the history first
+  const history = await getNavigationHistory(page);
+  if (history && history.currentIndex <= 0) {
+    throw new Error("No previous page in history");
+  }
+  await withActionErrors(() =>
+    page.goBack({ waitUntil: options.waitUntil || "load" }),
+  );
+}
+
+/**
+ * Go forward one entry in the tab's history
+ */
+export async function goForward(
+  page: Page,
+  options: Omit<NavigateOptions, "url"> = {},
+): Promise<void> {
+  const history = await getNavigationHistory(page);
+  if (history && history.currentIndex >= history.entries.length - 1) {
+    throw new Error("No next page in history");
+  }
+  await withActionErrors(() =>
+    page.goForward({ waitUntil: options.waitUntil || "load" }),
+  );
+}
+
+/**
+ * Reload the page, optionally bypassing the HTTP cache
+ */
+export async function reload(
+  page: Page,
+  options: ReloadOptions = {},
+): Promise<void> {
+  const waitUntil = options.waitUntil || "load";
+  if (!options.hard) {
+    await withActionErrors(() => page.reload({ waitUntil }));
+    return;
+  }
+  // Playwright's reload has no cache option; ask Chromium directly
+  const session = await page.context().newCDPSession(page);
+  try {
+    const navigation = page.waitForNavigation({ waitUntil });
+    // Don't leave a rejection unhandled if the reload itself fails
+    navigation.catch(() => {});
+    await session.send("Page.reload", { ignoreCache: true });
+    await withActionErrors(() => navigation);
+  } finally {
+    await session.detach().catch(() => {});
+  }
+}
+
+/**
+ * Session history of a tab, via CDP (null when unavailable)
+ */
+export async function getNavigationHistory(
+  page: Page,
+): Promise<NavigationHistory | null> {
+  let session: CDPSession;
+  try {
+    session = await page.context().newCDPSession(page);
+  } catch {
+    return null;
+  }
+  try {
+    const { currentIndex, entries } = await session.send(
+      "Page.getNavigationHistory",
+    );
+    return {
+      currentIndex,
+      entries: entries.map((entry) => ({
+        url: entry.url,
+        title: entry.title,
+      })),
+    };
+  } catch {
+    return null;
+  } finally {
+    await session.detach().catch(() => {});
+  }
 }
 
 /**
@@ -134,10 +270,10 @@ export async function waitForElement(
 export async function hover(
   page: Page,
   refStore: ElementRefStore,
-  options: { ref?: string; index?: number },
+  options: { ref?: string; index?: number; locator?: ElementLocator },
 ): Promise<void> {
   const locator = await getLocator(page, refStore, options);
-  await locator.hover();
+  await withActionErrors(() => locator.hover(), { locator, refStore });
 }
 
 /**
@@ -146,10 +282,328 @@ export async function hover(
 export async function select(
   page: Page,
   refStore: ElementRefStore,
-  options: { ref?: string; index?: number; value: string | string[] },
+  options: {
+    ref?: string;
+    index?: number;
+    locator?: ElementLocator;
+    value: string | string[];
+  },
 ): Promise<void> {
   const locator = await getLocator(page, refStore, options);
-  await locator.selectOption(options.value);
+  await withActionErrors(() => locator.selectOption(options.value), {
+    locator,
+    refStore,
+  });
+}
+
+/**
+ * Center of an element in viewport coordinates
+ */
+async function getCenter(locator: Locator): Promise<{ x: number; y: number }> {
+  const box = await locator.boundingBox();
+  if (!box) {
+    throw new Error("Element has no bounding box (is it visible?)");
+  }
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+/**
+ * Drag an element onto another element or to coordinates
+ * Uses real mouse events with intermediate moves, so pointer-based libraries
+ * (dnd-kit, react-beautiful-dnd) and native HTML5 drag and drop both see a drag.
+ */
+export async function drag(
+  page: Page,
+  refStore: ElementRefStore,
+  options: DragOptions,
+): Promise<void> {
+  const source = await getLocator(page, refStore, options);
+  await withActionErrors(() => source.scrollIntoViewIfNeeded(), {
+    locator: source,
+    refStore,
+  });
+  const from = await getCenter(source);
+
+  const { to: target } = options;
+  let to: { x: number; y: number };
+  if (target.x != null && target.y != null) {
+    to = { x: target.x, y: target.y };
+  } else if (target.ref || target.index != null || target.locator) {
+    to = await getCenter(await getLocator(page, refStore, target));
+  } else {
+    throw new Error("drag requires a target element or x/y coordinates");
+  }
+
+  await page.mouse.move(from.x, from.y);
+  await page.mouse.down();
+  // Libraries only start a drag after the pointer moves a few pixels
+  await page.mouse.move(from.x + 5, from.y + 5, { steps: 2 });
+  await page.mouse.move(to.x, to.y, { steps: options.steps ?? 10 });
+  // Some libraries only pick the drop target on a move that ends over it
+  await page.mouse.move(to.x, to.y);
+  await page.mouse.up();
+}
+
+/**
+ * Press a mouse button, optionally moving to coordinates first
+ */
+export async function mouseDown(
+  page: Page,
+  options: Partial<PointerOptions> = {},
+): Promise<void> {
+  if (options.x != null && options.y != null) {
+    await page.mouse.move(options.x, options.y);
+  }
+  await page.mouse.down({ button: options.button });
+}
+
+/**
+ * Move the mouse to coordinates
+ */
+export async function mouseMove(
+  page: Page,
+  options: { x: number; y: number; steps?: number },
+): Promise<void> {
+  await page.mouse.move(options.x, options.y, { steps: options.steps });
+}
+
+/**
+ * Release a mouse button, optionally moving to coordinates first
+ */
+export async function mouseUp(
+  page: Page,
+  options: Partial<PointerOptions> = {},
+): Promise<void> {
+  if (options.x != null && options.y != null) {
+    await page.mouse.move(options.x, options.y);
+  }
+  await page.mouse.up({ button: options.button });
+}
+
+/**
+ * Click at viewport coordinates (canvas UIs, maps)
+ */
+export async function clickAt(
+  page: Page,
+  options: PointerOptions & { double?: boolean },
+): Promise<void> {
+  await page.mouse.click(options.x, options.y, {
+    button: options.button,
+    clickCount: options.double ? 2 : 1,
+  });
+}
+
+/**
+ * Files in the form Playwright takes: all paths, or all in-memory payloads
+ */
+function toFilePayloads(
+  files: UploadFile[],
+): string[] | Array<{ name: string; mimeType: string; buffer: Buffer }> {
+  const paths = files.filter(
+    (file): file is string => typeof file === "string",
+  );
+  const payloads = files.filter(
+    (file): file is Exclude<UploadFile, string> => typeof file !== "string",
+  );
+  if (paths.length > 0 && payloads.length > 0) {
+    throw new Error(
+      "Upload files must be all paths or all {name, mimeType, base64} objects, not a mix",
+    );
+  }
+  if (payloads.length === 0) {
+    return paths;
+  }
+  return payloads.map((file) => ({
+    name: file.name,
+    mimeType: file.mimeType,
+    buffer: Buffer.from(file.base64, "base64"),
+  }));
+}
+
+/**
+ * Upload files through a file input, or a custom dropzone
+ * Anything that isn't an <input type=file> is clicked, and the files are
+ * passed to the file chooser it opens.
+ */
+export async function upload(
+  page: Page,
+  refStore: ElementRefStore,
+  options: UploadOptions,
+): Promise<void> {
+  const files = toFilePayloads(options.files);
+  const locator = await getLocator(page, refStore, options);
+
+  const isFileInput = await locator.evaluate(
+    (node) => node instanceof HTMLInputElement && node.type === "file",
+  );
+  if (isFileInput) {
+    await withActionErrors(() => locator.setInputFiles(files), {
+      locator,
+      refStore,
+    });
+    return;
+  }
+
+  const chooserPromise = page.waitForEvent("filechooser");
+  // Don't leave a rejection unhandled if the click itself fails
+  chooserPromise.catch(() => {});
+  await withActionErrors(() => locator.click(), { locator, refStore });
+  let chooser: Awaited<typeof chooserPromise>;
+  try {
+    chooser = await chooserPromise;
+  } catch {
+    throw new Error(
+      "Clicking the target did not open a file chooser. Target an <input type=file> or the element that opens the picker.",
+    );
+  }
+  await chooser.setFiles(files);
+}
+
+const INSPECT_HTML_LIMIT = 1000;
+
+/**
+ * Event types with listeners attached directly to an element, via CDP
+ * Only available for elements in the main frame or an out-of-process frame.
+ */
+async function getEventListenerTypes(
+  page: Page,
+  locator: Locator,
+): Promise<string[] | null> {
+  // CDP needs a remote object id, which Playwright doesn't expose; park the
+  // element on a window property just long enough to fetch it
+  const key = "__agentBrowserInspect";
+  const handle = await locator.elementHandle().catch(() => null);
+  const frame = await handle?.ownerFrame();
+  await handle?.dispose();
+  if (!frame) {
+    return null;
+  }
+
+  let session: CDPSession;
+  try {
+    session = await page.context().newCDPSession(frame);
+  } catch {
+    // Same-process child frames share their parent's session
+    return null;
+  }
+
+  try {
+    await locator.evaluate((el, name) => {
+      (window as unknown as Record<string, unknown>)[name] = el;
+    }, key);
+    const { result } = await session.send("Runtime.evaluate", {
+      expression: `window.${key}`,
+    });
+    if (!result.objectId) {
+      return null;
+    }
+    const { listeners } = await session.send("DOMDebugger.getEventListeners", {
+      objectId: result.objectId,
+    });
+    return Array.from(new Set(listeners.map((listener) => listener.type)));
+  } catch {
+    return null;
+  } finally {
+    await locator
+      .evaluate((_el, name) => {
+        delete (window as unknown as Record<string, unknown>)[name];
+      }, key)
+      .catch(() => {});
+    await session.detach().catch(() => {});
+  }
+}
+
+/**
+ * Inspect an element: markup, computed styles, box, ARIA attributes,
+ * what covers it, its event listeners, and its parent chain
+ */
+export async function inspect(
+  page: Page,
+  refStore: ElementRefStore,
+  options: { ref?: string; index?: number; locator?: ElementLocator },
+): Promise<ElementInspection> {
+  const locator = await getLocator(page, refStore, options);
+
+  const details = await locator.evaluate((el, htmlLimit) => {
+    const describe = (node: Element): string => {
+      const id = node.getAttribute("id");
+      const classes = Array.from(node.classList).slice(0, 2);
+      return `${node.tagName.toLowerCase()}${id ? `#${id}` : ""}${classes.map((c) => `.${c}`).join("")}`;
+    };
+
+    const parentOf = (node: Element): Element | null => {
+      if (node.parentElement) {
+        return node.parentElement;
+      }
+      const root = node.getRootNode();
+      return root instanceof ShadowRoot ? root.host : null;
+    };
+
+    const style = window.getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+
+    const aria: Record<string, string> = {};
+    for (const attr of Array.from(el.attributes)) {
+      if (attr.name === "role" || attr.name.startsWith("aria-")) {
+        aria[attr.name] = attr.value;
+      }
+    }
+
+    // What would receive a click at the element's center
+    const centerX = rect.x + rect.width / 2;
+    const centerY = rect.y + rect.height / 2;
+    const inViewport =
+      centerX >= 0 &&
+      centerY >= 0 &&
+      centerX <= window.innerWidth &&
+      centerY <= window.innerHeight;
+    let coveredBy: string | undefined;
+    if (inViewport) {
+      const root = el.getRootNode() as Document | ShadowRoot;
+      const top = root.elementFromPoint(centerX, centerY);
+      if (top && top !== el && !el.contains(top)) {
+        coveredBy = describe(top);
+      }
+    }
+
+    const parents: string[] = [];
+    let current = parentOf(el);
+    while (current && current !== document.documentElement) {
+      parents.push(describe(current));
+      if (current === document.body) {
+        break;
+      }
+      current = parentOf(current);
+    }
+
+    const outerHTML = el.outerHTML;
+    return {
+      element: describe(el),
+      outerHTML: outerHTML.slice(0, htmlLimit),
+      outerHTMLTruncated: outerHTML.length > htmlLimit,
+      styles: {
+        display: style.display,
+        visibility: style.visibility,
+        pointerEvents: style.pointerEvents,
+        opacity: style.opacity,
+        zIndex: style.zIndex,
+        position: style.position,
+        cursor: style.cursor,
+      },
+      boundingBox: {
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
+      },
+      aria,
+      inViewport,
+      coveredBy,
+      parents,
+    };
+  }, INSPECT_HTML_LIMIT);
+
+  return { ...details, listeners: await getEventListenerTypes(page, locator) };
 }
 
 /**
@@ -170,10 +624,9 @@ export async function screenshot(
 
 /**
  * Get console logs from the page
+ * Pass an existing array to collect logs from several pages into one list
  */
-export function setupConsoleCapture(page: Page): string[] {
-  const logs: string[] = [];
-
+export function setupConsoleCapture(page: Page, logs: string[] = []): string[] {
   page.on("console", (msg) => {
     logs.push(`[${msg.type()}] ${msg.text()}`);
   });
@@ -196,21 +649,136 @@ function pushNetworkEvent(
   }
 }
 
+export interface NetworkCaptureOptions {
+  /** Max network events to keep (default: 500) */
+  limit?: number;
+  /** Request ID generator, shared across pages so IDs stay unique */
+  nextId?: () => string;
+  /** Collect headers and bodies into this map (keyed by request ID) */
+  details?: Map<string, NetworkEventDetail>;
+  /** Max characters kept per body (default: 10000) */
+  bodyLimit?: number;
+  /** Extra header/field names to redact */
+  redact?: NetworkRedactOptions;
+}
+
+const TEXT_CONTENT_TYPE =
+  /^text\/|json|xml|javascript|x-www-form-urlencoded|graphql/i;
+
+function getHeader(
+  headers: Record<string, string>,
+  name: string,
+): string | undefined {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * Redact then truncate a body for storage
+ */
+function prepareBody(
+  body: string,
+  contentType: string | undefined,
+  fields: Set<string>,
+  limit: number,
+): { body: string; truncated: boolean; redacted: boolean } {
+  const redacted = redactBody(body, contentType, fields);
+  const changed = redacted !== body;
+  if (redacted.length <= limit) {
+    return { body: redacted, truncated: false, redacted: changed };
+  }
+  return { body: redacted.slice(0, limit), truncated: true, redacted: changed };
+}
+
+async function readResponseBody(
+  response: Response,
+  contentType: string | undefined,
+): Promise<{ text: string; size: number; binary: boolean } | undefined> {
+  try {
+    const buffer = await response.body();
+    if (buffer.length === 0) {
+      return undefined;
+    }
+    if (contentType && !TEXT_CONTENT_TYPE.test(contentType)) {
+      return {
+        text: `[binary ${buffer.length} bytes, ${contentType}]`,
+        size: buffer.length,
+        binary: true,
+      };
+    }
+    return {
+      text: buffer.toString("utf-8"),
+      size: buffer.length,
+      binary: false,
+    };
+  } catch {
+    // Redirects and aborted responses have no body
+    return undefined;
+  }
+}
+
+/**
+ * Create a sequential request ID generator ("req-0", "req-1", ...)
+ */
+export function createRequestIdGenerator(): () => string {
+  let counter = 0;
+  return () => `req-${counter++}`;
+}
+
 /**
  * Capture network activity from the page
  */
 export function setupNetworkCapture(
   page: Page,
   events: NetworkEvent[],
-  limit = 500,
+  options: NetworkCaptureOptions = {},
 ): void {
-  let counter = 0;
+  const limit = options.limit ?? 500;
+  const nextId = options.nextId ?? createRequestIdGenerator();
   const requestMap = new Map<Request, { id: string; startedAt: number }>();
+  const { details } = options;
+  const bodyLimit = options.bodyLimit ?? 10000;
+  const rules = resolveRedactRules(options.redact);
+
+  const storeDetail = (detail: NetworkEventDetail) => {
+    if (!details) {
+      return;
+    }
+    details.set(detail.id, detail);
+    // Keep details bounded like the event list (Map iterates oldest first)
+    for (const key of details.keys()) {
+      if (details.size <= limit) {
+        break;
+      }
+      details.delete(key);
+    }
+  };
 
   page.on("request", (request) => {
-    const id = `req-${counter++}`;
+    const id = nextId();
     const startedAt = Date.now();
     requestMap.set(request, { id, startedAt });
+    if (details) {
+      const headers = request.headers();
+      const postData = request.postData();
+      const contentType = getHeader(headers, "content-type");
+      const body =
+        postData == null
+          ? undefined
+          : prepareBody(postData, contentType, rules.fields, bodyLimit);
+      storeDetail({
+        id,
+        type: "request",
+        url: request.url(),
+        method: request.method(),
+        resourceType: request.resourceType(),
+        timestamp: startedAt,
+        requestHeaders: redactHeaders(headers, rules.headers),
+        requestBody: body?.body,
+        requestBodyTruncated: body?.truncated || undefined,
+        requestBodySize: request.postDataBuffer()?.length,
+      });
+    }
     pushNetworkEvent(
       events,
       {
@@ -228,7 +796,7 @@ export function setupNetworkCapture(
   page.on("response", (response) => {
     const request = response.request();
     const cached = requestMap.get(request);
-    const id = cached?.id ?? `req-${counter++}`;
+    const id = cached?.id ?? nextId();
     const startedAt = cached?.startedAt ?? Date.now();
     const timestamp = Date.now();
     pushNetworkEvent(
@@ -247,11 +815,40 @@ export function setupNetworkCapture(
       limit,
     );
     requestMap.delete(request);
+
+    const detail = details?.get(id);
+    if (detail) {
+      void captureResponseDetail(response, detail);
+    }
   });
 
+  const captureResponseDetail = async (
+    response: Response,
+    detail: NetworkEventDetail,
+  ) => {
+    try {
+      const headers = await response.allHeaders();
+      const contentType = getHeader(headers, "content-type");
+      detail.responseHeaders = redactHeaders(headers, rules.headers);
+      const raw = await readResponseBody(response, contentType);
+      if (raw != null) {
+        const body = raw.binary
+          ? { body: raw.text, truncated: false, redacted: false }
+          : prepareBody(raw.text, contentType, rules.fields, bodyLimit);
+        detail.responseBody = body.body;
+        detail.responseBodyTruncated = body.truncated || undefined;
+        detail.responseBodyRedacted = body.redacted || undefined;
+        detail.responseBodySize = raw.size;
+        detail.responseBodyBinary = raw.binary || undefined;
+      }
+    } catch {
+      // Page or context closed before the response could be read
+    }
+  };
+
   page.on("requestfailed", (request) => {
     const cached = requestMap.get(request);
-    const id = cached?.id ?? `req-${counter++}`;
+    const id = cached?.id ?? nextId();
     const startedAt = cached?.startedAt ?? Date.now();
     const timestamp = Date.now();
     pushNetworkEvent(
@@ -271,3 +868,42 @@ export function setupNetworkCapture(
     requestMap.delete(request);
   });
 }
+
+/** Long-lived requests that never "finish" and would block idle detection */
+const IGNORED_ACTIVITY_TYPES = new Set(["eventsource", "websocket"]);
+
+/**
+ * Track in-flight requests for the page (used for network idle checks)
+ */
+export function setupNetworkActivity(
+  page: Page,
+  activity: NetworkActivity,
+): void {
+  const settle = (request: Request) => {
+    if (activity.inflight.delete(request)) {
+      activity.lastActivityAt = Date.now();
+    }
+  };
+
+  page.on("request", (request) => {
+    if (IGNORED_ACTIVITY_TYPES.has(request.resourceType())) {
+      return;
+    }
+    activity.inflight.add(request);
+    activity.lastActivityAt = Date.now();
+  });
+  page.on("requestfinished", settle);
+  page.on("requestfailed", settle);
+  page.on("close", () => {
+    for (const request of activity.inflight) {
+      try {
+        if (request.frame().page() === page) {
+          activity.inflight.delete(request);
+        }
+      } catch {
+        // Requests without a frame (service workers) can't be attributed
+        activity.inflight.delete(request);
+      }
+    }
+  });
+}
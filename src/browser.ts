@@ -2,24 +2,67 @@ import type { Browser, BrowserContext, Page } from "playwright";
 import { chromium } from "playwright";
 import * as actions from "./actions";
 import { findChromeExecutable } from "./chrome";
+import {
+  type ConditionContext,
+  type ConditionResult,
+  evaluateCondition,
+  isEmptyCondition,
+} from "./conditions";
+import {
+  type DialogInfo,
+  type DialogPolicy,
+  DialogTracker,
+  describeDialog,
+} from "./dialogs";
+import { diffStates, type StateDiff } from "./diff";
+import { type DownloadDetail, DownloadTracker } from "./downloads";
+import { EffectsRecorder } from "./effects";
+import { buildHar, type Har } from "./har";
+import type { ElementLocator } from "./locator";
 import { log } from "./log";
-import { ElementRefStore } from "./ref-store";
-import { formatStateText, getState } from "./state";
+import { type RouteInfo, RouteRegistry, type RouteRule } from "./mock";
+import { ElementRefStore, type StaleRefError } from "./ref-store";
+import { SettleTracker } from "./settle";
+import { extractInteractiveElements, formatStateText, getState } from "./state";
 import type {
   BrowserConfig,
   BrowserState,
   ClickOptions,
+  DragOptions,
   DumpNetworkOptions,
   DumpStateOptions,
   DumpStateTextOptions,
+  ElementInspection,
   GetStateOptions,
+  HarOptions,
   NavigateOptions,
+  NetworkActivity,
   NetworkEvent,
+  NetworkEventDetail,
+  PointerOptions,
+  ReloadOptions,
   TypeOptions,
+  UploadOptions,
+  WaitCondition,
 } from "./types";
 
 export type AgentBrowserOptions = BrowserConfig;
 
+/**
+ * Whether two snapshots taken with these options cover the same elements and
+ * tree lines (a screenshot doesn't change what's compared)
+ */
+function sameStateScope(a: GetStateOptions, b: GetStateOptions): boolean {
+  const scope = ({ includeScreenshot: _, ...options }: GetStateOptions) =>
+    JSON.stringify({
+      ...options,
+      includeElements: options.includeElements ?? true,
+      includeTree: options.includeTree ?? true,
+      viewportOnly: options.viewportOnly ?? false,
+    });
+  return scope(a) === scope(b);
+}
+
 /**
  * Main browser automation class
  */
@@ -30,10 +73,22 @@ export class AgentBrowser {
   private config: BrowserConfig;
   private consoleLogs: string[] = [];
   private networkLogs: NetworkEvent[] = [];
+  private networkDetails = new Map<string, NetworkEventDetail>();
   private networkCaptureEnabled = false;
   private networkLogLimit: number;
+  private nextNetworkId = actions.createRequestIdGenerator();
+  private trackedPages = new Set<Page>();
+  private networkActivity: NetworkActivity = {
+    inflight: new Set(),
+    lastActivityAt: Date.now(),
+  };
   private usePersistentContext = false;
+  private tracing = false;
+  private routes = new RouteRegistry();
+  private dialogs: DialogTracker;
+  private downloads: DownloadTracker;
   private lastState: BrowserState | null = null;
+  private lastStateOptions: GetStateOptions = {};
   private refStore: ElementRefStore = new ElementRefStore();
 
   constructor(options: AgentBrowserOptions = {}) {
@@ -50,7 +105,17 @@ export class AgentBrowser {
       networkLogLimit: options.networkLogLimit,
       storageState: options.storageState,
       storageStatePath: options.storageStatePath,
+      trace: options.trace ?? false,
+      captureNetworkBodies: options.captureNetworkBodies ?? false,
+      networkBodyLimit: options.networkBodyLimit,
+      networkRedact: options.networkRedact,
+      routes: options.routes,
+      routeFromHar: options.routeFromHar,
+      dialogPolicy: options.dialogPolicy,
+      downloadsDir: options.downloadsDir,
     };
+    this.dialogs = new DialogTracker(this.config.dialogPolicy);
+    this.downloads = new DownloadTracker(this.config.downloadsDir);
     this.networkLogLimit =
       options.networkLogLimit ?? this.config.networkLogLimit ?? 500;
   }
@@ -124,6 +189,10 @@ export class AgentBrowser {
         );
       }
       this.browser = this.context.browser();
+      this.context.on("page", (page) => this.trackPage(page));
+      for (const page of this.context.pages()) {
+        this.trackPage(page);
+      }
       this.page = this.context.pages()[0] ?? (await this.context.newPage());
     } else {
       try {
@@ -151,18 +220,76 @@ export class AgentBrowser {
         },
         storageState: this.config.storageStatePath ?? this.config.storageState,
       });
+      this.context.on("page", (page) => this.trackPage(page));
 
       this.page = await this.context.newPage();
     }
 
-    this.page.setDefaultTimeout(this.config.timeout!);
+    this.trackPage(this.page);
+
+    // Registered before mock rules so those take precedence over the HAR
+    if (this.config.routeFromHar) {
+      const { path, url, notFound, update } = this.config.routeFromHar;
+      await this.context.routeFromHAR(path, {
+        url,
+        notFound: notFound ?? "abort",
+        update,
+      });
+    }
 
-    // Set up console capture
-    this.consoleLogs = actions.setupConsoleCapture(this.page);
+    for (const rule of this.config.routes ?? []) {
+      await this.routes.add(this.context, rule);
+    }
 
     if (this.config.captureNetwork) {
       this.enableNetworkCapture();
     }
+
+    if (this.config.trace) {
+      await this.startTrace();
+    }
+  }
+
+  /**
+   * Attach timeouts and console/network capture to a page (once per page).
+   * Called for the initial page and every tab or popup opened afterwards.
+   */
+  private trackPage(page: Page): void {
+    if (this.trackedPages.has(page)) {
+      return;
+    }
+    this.trackedPages.add(page);
+    page.setDefaultTimeout(this.config.timeout!);
+    actions.setupConsoleCapture(page, this.consoleLogs);
+    actions.setupNetworkActivity(page, this.networkActivity);
+    this.dialogs.attach(page);
+    this.downloads.attach(page);
+    if (this.networkCaptureEnabled) {
+      this.attachNetworkCapture(page);
+    }
+    page.on("close", () => {
+      this.trackedPages.delete(page);
+      if (this.page === page) {
+        // Fall back to the most recently opened remaining tab
+        const remaining = (this.context?.pages() ?? []).filter(
+          (p) => p !== page,
+        );
+        this.page = remaining[remaining.length - 1] ?? null;
+        this.refStore.clear();
+      }
+    });
+  }
+
+  private attachNetworkCapture(page: Page): void {
+    actions.setupNetworkCapture(page, this.networkLogs, {
+      limit: this.networkLogLimit,
+      nextId: this.nextNetworkId,
+      details: this.config.captureNetworkBodies
+        ? this.networkDetails
+        : undefined,
+      bodyLimit: this.config.networkBodyLimit,
+      redact: this.config.networkRedact,
+    });
   }
 
   /**
@@ -178,10 +305,18 @@ export class AgentBrowser {
     this.browser = null;
     this.context = null;
     this.page = null;
+    this.trackedPages.clear();
+    this.networkActivity = { inflight: new Set(), lastActivityAt: Date.now() };
     this.consoleLogs = [];
     this.networkLogs = [];
+    this.networkDetails.clear();
+    this.nextNetworkId = actions.createRequestIdGenerator();
     this.networkCaptureEnabled = false;
     this.usePersistentContext = false;
+    this.tracing = false;
+    this.routes.reset();
+    this.dialogs.reset();
+    this.downloads.reset();
     this.refStore.clear();
   }
 
@@ -205,6 +340,67 @@ export class AgentBrowser {
     return this.context;
   }
 
+  /**
+   * Resolve a tab by index (1) or tab ID ("tab-1") from getState().tabs
+   */
+  private resolveTab(tab: number | string): Page {
+    const pages = this.getContext().pages();
+    const index =
+      typeof tab === "number"
+        ? tab
+        : Number.parseInt(tab.replace(/^tab-/, ""), 10);
+    const page = Number.isNaN(index) ? undefined : pages[index];
+    if (!page) {
+      throw new Error(
+        `Unknown tab: ${tab}. Open tabs: ${pages.map((_, i) => `tab-${i}`).join(", ")}`,
+      );
+    }
+    return page;
+  }
+
+  /**
+   * Open a new tab, make it active, and optionally navigate it
+   */
+  async newTab(
+    url?: string,
+    options?: Omit<NavigateOptions, "url">,
+  ): Promise<void> {
+    const page = await this.getContext().newPage();
+    this.trackPage(page);
+    this.page = page;
+    this.refStore.clear();
+    if (url) {
+      await actions.navigate(page, { url, ...options });
+    }
+  }
+
+  /**
+   * Make another tab the active one for actions and state
+   */
+  async switchTab(tab: number | string): Promise<void> {
+    const page = this.resolveTab(tab);
+    if (page === this.page) {
+      return;
+    }
+    this.page = page;
+    this.refStore.clear();
+    await page.bringToFront();
+  }
+
+  /**
+   * Close a tab (defaults to the active tab)
+   */
+  async closeTab(tab?: number | string): Promise<void> {
+    const page = tab === undefined ? this.getPage() : this.resolveTab(tab);
+    if (this.getContext().pages().length <= 1) {
+      throw new Error(
+        "Cannot close the last tab. Use close to end the session.",
+      );
+    }
+    // The page "close" listener picks the next active tab
+    await page.close();
+  }
+
   /**
    * Navigate to a URL
    */
@@ -216,29 +412,229 @@ export class AgentBrowser {
     this.refStore.clear();
   }
 
+  /**
+   * Go back in the active tab's history
+   */
+  async back(options?: Omit<NavigateOptions, "url">): Promise<void> {
+    await actions.goBack(this.getPage(), options);
+    this.refStore.clear();
+  }
+
+  /**
+   * Go forward in the active tab's history
+   */
+  async forward(options?: Omit<NavigateOptions, "url">): Promise<void> {
+    await actions.goForward(this.getPage(), options);
+    this.refStore.clear();
+  }
+
+  /**
+   * Reload the active tab (hard: bypass the cache)
+   */
+  async reload(options?: ReloadOptions): Promise<void> {
+    await actions.reload(this.getPage(), options);
+    this.refStore.clear();
+  }
+
+  /**
+   * Get the active page's URL
+   */
+  getUrl(): string {
+    return this.getPage().url();
+  }
+
   /**
    * Get rich state of the current page
    * Stores element refs server-side (no DOM modification)
    */
   async getState(options?: GetStateOptions): Promise<BrowserState> {
+    const page = this.getPage();
+    if (this.dialogs.hasPending(page)) {
+      return this.getBlockedState(page);
+    }
     // getState now stores refs in this.refStore instead of injecting into DOM
     const state = await getState(
-      this.getPage(),
+      page,
       this.getContext(),
       this.refStore,
       options,
     );
+    const routes = this.routes.list();
+    const history = await actions.getNavigationHistory(page);
+    const dialogs = this.dialogs.takeRecent();
+    const downloads = this.downloads.list();
     const result = {
       ...state,
       errors: {
         console: this.getConsoleErrors(),
         network: this.getNetworkErrors(),
       },
+      routes: routes.length > 0 ? routes : undefined,
+      history: history ?? undefined,
+      dialogs: dialogs.length > 0 ? dialogs : undefined,
+      downloads: downloads.length > 0 ? downloads : undefined,
     };
     this.lastState = result;
+    this.lastStateOptions = options ?? {};
     return result;
   }
 
+  /**
+   * State while a dialog is open: the page can't be evaluated, so only
+   * report what's known without touching it. Refs and the last state are kept.
+   */
+  private getBlockedState(page: Page): BrowserState {
+    const downloads = this.downloads.list();
+    const tabs = this.getContext()
+      .pages()
+      .map((p, i) => ({
+        id: `tab-${i}`,
+        url: p.url(),
+        title: "",
+        active: p === page,
+      }));
+    return {
+      url: page.url(),
+      title: "",
+      tabs,
+      elements: [],
+      accessibilityTree: "",
+      scrollPosition: {
+        scrollTop: 0,
+        pixelsAbove: 0,
+        pixelsBelow: 0,
+        totalHeight: 0,
+        viewportHeight: 0,
+      },
+      errors: {
+        console: this.getConsoleErrors(),
+        network: this.getNetworkErrors(),
+      },
+      dialogs: [...this.dialogs.getPending(page), ...this.dialogs.takeRecent()],
+      downloads: downloads.length > 0 ? downloads : undefined,
+    };
+  }
+
+  /**
+   * Get state along with what changed since the previous snapshot
+   * diff is null when there is no previous snapshot to compare against,
+   * including one taken with different options (e.g. viewportOnly).
+   */
+  async getStateDiff(
+    options?: GetStateOptions,
+  ): Promise<{ state: BrowserState; diff: StateDiff | null }> {
+    const previous = sameStateScope(this.lastStateOptions, options ?? {})
+      ? this.lastState
+      : null;
+    const state = await this.getState(options);
+    // A blocked page has no elements to compare; report it in full
+    const blocked = state.dialogs?.some((dialog) => !dialog.outcome);
+    return {
+      state,
+      diff: previous && !blocked ? diffStates(previous, state) : null,
+    };
+  }
+
+  /**
+   * Re-snapshot element refs and find the element a stale ref pointed at
+   * Returns its current ref, or undefined if it's no longer on the page.
+   * Doesn't replace the last state, so diffs still compare full snapshots.
+   */
+  async rebindStaleRef(error: StaleRefError): Promise<string | undefined> {
+    await this.refreshRefs();
+    return this.refStore.rematch(error.expected)?.ref;
+  }
+
+  /**
+   * Re-snapshot element refs for internal lookups (replay, stale ref retries)
+   * Doesn't replace the last state, so diffs still compare against what the
+   * caller last saw.
+   */
+  async refreshRefs(): Promise<void> {
+    this.assertNoPendingDialog();
+    const page = this.getPage();
+    await page.waitForLoadState("domcontentloaded");
+    await extractInteractiveElements(page, this.refStore);
+  }
+
+  /**
+   * Start watching the active tab for an action's effects to finish
+   * (see SettleTracker.wait)
+   */
+  async startSettle(): Promise<SettleTracker> {
+    const tracker = new SettleTracker(
+      this.getPage(),
+      () => this.page,
+      (page) => this.dialogs.hasPending(page),
+    );
+    await tracker.start();
+    return tracker;
+  }
+
+  /**
+   * Start recording what an action does to the active tab
+   * (see EffectsRecorder.finish)
+   */
+  async startEffects(): Promise<EffectsRecorder> {
+    const page = this.getPage();
+    const recorder = new EffectsRecorder(page, this.getContext(), () =>
+      this.dialogs.hasPending(page),
+    );
+    await recorder.start();
+    return recorder;
+  }
+
+  /**
+   * Answer the dialog open on the active tab
+   */
+  async respondToDialog(options: {
+    accept: boolean;
+    promptText?: string;
+  }): Promise<DialogInfo> {
+    return this.dialogs.respond(this.getPage(), options);
+  }
+
+  /**
+   * Throw if a dialog is open on the active tab (anything touching the page
+   * would hang until it's answered)
+   */
+  assertNoPendingDialog(): void {
+    const [pending] = this.dialogs.getPending(this.getPage());
+    if (pending) {
+      throw new Error(
+        `A ${describeDialog(pending)} dialog is open. Answer it with dialog:accept or dialog:dismiss first.`,
+      );
+    }
+  }
+
+  getDialogPolicy(): DialogPolicy {
+    return this.dialogs.getPolicy();
+  }
+
+  /**
+   * Change how dialogs opened from now on are answered
+   */
+  setDialogPolicy(policy: DialogPolicy): DialogPolicy {
+    return this.dialogs.setPolicy(policy);
+  }
+
+  /**
+   * Downloads with the first lines of text files, for checking exports
+   */
+  async getDownloads(options?: {
+    id?: string;
+    previewLines?: number;
+  }): Promise<DownloadDetail[]> {
+    return this.downloads.inspect(options);
+  }
+
+  /**
+   * Directory this session saves downloads into
+   */
+  getDownloadsDir(): string {
+    return this.downloads.getDirectory();
+  }
+
   /**
    * Get the last cached state (non-blocking)
    * Returns null if getState() hasn't been called yet
@@ -279,6 +675,29 @@ export class AgentBrowser {
     await Bun.write(options.path, json);
   }
 
+  /**
+   * Build a HAR 1.2 log of captured traffic
+   */
+  getHar(options: HarOptions = {}): Har {
+    const completed = this.networkLogs
+      .filter((event) => event.type !== "request")
+      .map((event) => ({ ...this.networkDetails.get(event.id), ...event }));
+    return buildHar(completed, options);
+  }
+
+  /**
+   * Write captured traffic to a HAR file
+   */
+  async dumpHar(options: DumpNetworkOptions & HarOptions): Promise<void> {
+    const pretty = options.pretty ?? true;
+    const json = JSON.stringify(
+      this.getHar(options),
+      null,
+      pretty ? 2 : undefined,
+    );
+    await Bun.write(options.path, json);
+  }
+
   /**
    * Click an element
    */
@@ -325,35 +744,25 @@ export class AgentBrowser {
   }
 
   /**
-   * Wait for simple conditions (selector/text/url) with optional abort support
+   * Wait for a condition tree (selector/text/url/refs/network/console,
+   * composed with all/any/not) with optional abort support
    */
-  async waitFor(params: {
-    selector?: string;
-    text?: string;
-    url?: string;
-    notSelector?: string;
-    notText?: string;
-    timeoutMs?: number;
-    intervalMs?: number;
-    signal?: AbortSignal;
-  }): Promise<void> {
-    const {
-      selector,
-      text,
-      url,
-      notSelector,
-      notText,
-      timeoutMs,
-      intervalMs,
-      signal,
-    } = params;
-    if (!selector && !text && !url && !notSelector && !notText) {
+  async waitFor(
+    params: WaitCondition & {
+      timeoutMs?: number;
+      intervalMs?: number;
+      signal?: AbortSignal;
+    },
+  ): Promise<void> {
+    const { timeoutMs, intervalMs, signal, ...condition } = params;
+    if (isEmptyCondition(condition)) {
       throw new Error("Wait condition required");
     }
 
     const timeout = timeoutMs ?? this.config.timeout ?? 30000;
     const interval = intervalMs ?? 200;
     const page = this.getPage();
+    const ctx = this.createConditionContext(page);
     const start = Date.now();
     let aborted = false;
     const onAbort = () => {
@@ -372,53 +781,18 @@ export class AgentBrowser {
         if (aborted) {
           throw new Error("Request aborted");
         }
-        if (Date.now() - start > timeout) {
-          throw new Error(`Wait timed out after ${timeout}ms`);
-        }
 
-        const matched = await page.evaluate(
-          ({ selector, text, url, notSelector, notText }) => {
-            const isVisible = (target: string) => {
-              try {
-                const el = document.querySelector(target);
-                if (!el) {
-                  return false;
-                }
-                const style = window.getComputedStyle(el);
-                const rect = el.getBoundingClientRect();
-                return (
-                  style.display !== "none" &&
-                  style.visibility !== "hidden" &&
-                  (rect.width > 0 || rect.height > 0)
-                );
-              } catch {
-                return false;
-              }
-            };
-
-            const selectorMatches = selector ? isVisible(selector) : true;
-            const notSelectorMatches = notSelector
-              ? !isVisible(notSelector)
-              : true;
-            const bodyText = document.body?.innerText ?? "";
-            const textMatches = text ? bodyText.includes(text) : true;
-            const notTextMatches = notText ? !bodyText.includes(notText) : true;
-            const urlMatches = url ? window.location.href.includes(url) : true;
-            return (
-              selectorMatches &&
-              notSelectorMatches &&
-              textMatches &&
-              notTextMatches &&
-              urlMatches
-            );
-          },
-          { selector, text, url, notSelector, notText },
-        );
-
-        if (matched) {
+        const result = await evaluateCondition(ctx, condition);
+        if (result.matched) {
           return;
         }
 
+        if (Date.now() - start > timeout) {
+          throw new Error(
+            `Wait timed out after ${timeout}ms: expected ${result.expected}${result.actual ? ` (actual: ${result.actual})` : ""}`,
+          );
+        }
+
         await page.waitForTimeout(interval);
       }
     } finally {
@@ -428,6 +802,50 @@ export class AgentBrowser {
     }
   }
 
+  /**
+   * Check a condition once without waiting.
+   * Console/network predicates look at everything captured so far.
+   */
+  async assert(condition: WaitCondition): Promise<ConditionResult> {
+    if (isEmptyCondition(condition)) {
+      throw new Error("Assertion condition required");
+    }
+    const page = this.getPage();
+    return evaluateCondition(
+      this.createConditionContext(page, { fromStart: true }),
+      condition,
+    );
+  }
+
+  /**
+   * Build the context conditions are evaluated against.
+   * Console/network entries are counted from the moment this is called,
+   * or from the start of capture when fromStart is set.
+   */
+  private createConditionContext(
+    page: Page,
+    options: { fromStart?: boolean } = {},
+  ): ConditionContext {
+    let consoleOffset = options.fromStart ? 0 : this.consoleLogs.length;
+    const networkStartedAt = options.fromStart ? 0 : Date.now();
+    return {
+      page,
+      refStore: this.refStore,
+      consoleSince: () => {
+        // Logs may have been cleared since the context was created
+        consoleOffset = Math.min(consoleOffset, this.consoleLogs.length);
+        return this.consoleLogs.slice(consoleOffset);
+      },
+      networkSince: () =>
+        this.networkLogs.filter((event) => event.timestamp >= networkStartedAt),
+      networkCaptureEnabled: () => this.networkCaptureEnabled,
+      networkIdleForMs: () =>
+        this.networkActivity.inflight.size > 0
+          ? 0
+          : Date.now() - this.networkActivity.lastActivityAt,
+    };
+  }
+
   /**
    * Wait for text to appear in the document body
    */
@@ -457,7 +875,11 @@ export class AgentBrowser {
   /**
    * Hover over an element
    */
-  async hover(options: { ref?: string; index?: number }): Promise<void> {
+  async hover(options: {
+    ref?: string;
+    index?: number;
+    locator?: ElementLocator;
+  }): Promise<void> {
     await actions.hover(this.getPage(), this.refStore, options);
   }
 
@@ -467,11 +889,69 @@ export class AgentBrowser {
   async select(options: {
     ref?: string;
     index?: number;
+    locator?: ElementLocator;
     value: string | string[];
   }): Promise<void> {
     await actions.select(this.getPage(), this.refStore, options);
   }
 
+  /**
+   * Drag an element onto another element or to coordinates
+   */
+  async drag(options: DragOptions): Promise<void> {
+    await actions.drag(this.getPage(), this.refStore, options);
+  }
+
+  /**
+   * Press a mouse button
+   */
+  async mouseDown(options?: Partial<PointerOptions>): Promise<void> {
+    await actions.mouseDown(this.getPage(), options);
+  }
+
+  /**
+   * Move the mouse
+   */
+  async mouseMove(options: {
+    x: number;
+    y: number;
+    steps?: number;
+  }): Promise<void> {
+    await actions.mouseMove(this.getPage(), options);
+  }
+
+  /**
+   * Release a mouse button
+   */
+  async mouseUp(options?: Partial<PointerOptions>): Promise<void> {
+    await actions.mouseUp(this.getPage(), options);
+  }
+
+  /**
+   * Click at viewport coordinates
+   */
+  async clickAt(options: PointerOptions & { double?: boolean }): Promise<void> {
+    await actions.clickAt(this.getPage(), options);
+  }
+
+  /**
+   * Upload files to a file input or dropzone
+   */
+  async upload(options: UploadOptions): Promise<void> {
+    await actions.upload(this.getPage(), this.refStore, options);
+  }
+
+  /**
+   * Inspect an element's markup, styles, box, listeners, and what covers it
+   */
+  async inspect(options: {
+    ref?: string;
+    index?: number;
+    locator?: ElementLocator;
+  }): Promise<ElementInspection> {
+    return actions.inspect(this.getPage(), this.refStore, options);
+  }
+
   /**
    * Take a screenshot
    */
@@ -539,6 +1019,20 @@ export class AgentBrowser {
    */
   clearNetworkLogs(): void {
     this.networkLogs.length = 0;
+    this.networkDetails.clear();
+  }
+
+  /**
+   * Get full detail (headers/bodies when captured) for one request ID
+   */
+  getNetworkEvent(id: string): NetworkEventDetail {
+    const latest = this.networkLogs.findLast((event) => event.id === id);
+    const detail = this.networkDetails.get(id);
+    if (!latest && !detail) {
+      throw new Error(`Network event not found: ${id}`);
+    }
+    // The latest event carries the final status/timing; detail adds bodies
+    return { ...detail, ...latest } as NetworkEventDetail;
   }
 
   /**
@@ -566,9 +1060,10 @@ export class AgentBrowser {
     if (this.networkCaptureEnabled) {
       return;
     }
-    const page = this.getPage();
     this.networkCaptureEnabled = true;
-    actions.setupNetworkCapture(page, this.networkLogs, this.networkLogLimit);
+    for (const page of this.trackedPages) {
+      this.attachNetworkCapture(page);
+    }
   }
 
   /**
@@ -595,6 +1090,102 @@ export class AgentBrowser {
     return this.browser;
   }
 
+  /**
+   * Add a mock/interception rule for all tabs
+   */
+  async addRoute(rule: RouteRule): Promise<RouteInfo> {
+    return this.routes.add(this.getContext(), rule);
+  }
+
+  /**
+   * Remove a rule by id, all rules for a URL pattern, or every rule
+   */
+  async removeRoutes(
+    options: { id?: string; url?: string } = {},
+  ): Promise<{ removed: string[] }> {
+    const context = this.getContext();
+    if (options.id) {
+      if (!(await this.routes.remove(context, options.id))) {
+        throw new Error(`Route not found: ${options.id}`);
+      }
+      return { removed: [options.id] };
+    }
+    return { removed: await this.routes.removeAll(context, options.url) };
+  }
+
+  /**
+   * List active mock/interception rules
+   */
+  getRoutes(): RouteInfo[] {
+    return this.routes.list();
+  }
+
+  /**
+   * Whether a Playwright trace is being recorded
+   */
+  isTracing(): boolean {
+    return this.tracing;
+  }
+
+  /**
+   * Start recording a Playwright trace with screenshots and DOM snapshots
+   */
+  async startTrace(): Promise<void> {
+    if (this.tracing) {
+      throw new Error("Trace already started");
+    }
+    await this.getContext().tracing.start({
+      screenshots: true,
+      snapshots: true,
+    });
+    this.tracing = true;
+  }
+
+  /**
+   * Stop recording and write the trace to path (discarded if no path)
+   */
+  async stopTrace(path?: string): Promise<{ path?: string }> {
+    if (!this.tracing) {
+      throw new Error("No trace in progress. Start one with trace start.");
+    }
+    await this.getContext().tracing.stop({ path });
+    this.tracing = false;
+    return { path };
+  }
+
+  /**
+   * Write the trace recorded since start (or the previous save) and keep recording
+   */
+  async saveTrace(path: string): Promise<{ path: string }> {
+    if (!this.tracing) {
+      throw new Error("No trace in progress. Start one with trace start.");
+    }
+    const tracing = this.getContext().tracing;
+    await tracing.stopChunk({ path });
+    await tracing.startChunk();
+    return { path };
+  }
+
+  /**
+   * Run fn inside a named trace group so each command shows up as one step
+   * in the trace viewer. No-op when not tracing.
+   */
+  async withTraceGroup<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    if (!this.tracing) {
+      return fn();
+    }
+    const tracing = this.getContext().tracing;
+    await tracing.group(name);
+    try {
+      return await fn();
+    } finally {
+      // Tracing may have stopped (e.g. the command closed the browser)
+      if (this.tracing) {
+        await tracing.groupEnd();
+      }
+    }
+  }
+
   /**
    * Save storage state to a file (and return the state)
    */
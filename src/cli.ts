@@ -15,8 +15,16 @@ import {
 } from "cmd-ts";
 import { VERSION } from "./version";
 import type { AgentBrowserOptions } from "./browser";
-import type { StepAction } from "./commands";
+import {
+  formatDownloadsText,
+  formatInspectText,
+  formatNetworkEventText,
+  type StepAction,
+  type WaitCondition,
+} from "./commands";
 import { parseBrowserConfig } from "./config";
+import { type DialogPolicy, dialogPolicySchema } from "./dialogs";
+import type { DownloadDetail } from "./downloads";
 import {
   cleanupDaemonFiles,
   DaemonClient,
@@ -24,7 +32,10 @@ import {
   ensureDaemonNewSession,
   isDaemonRunning,
 } from "./daemon";
+import { flowSchema } from "./flow";
+import { type ElementLocator, parseLocator, splitLocatorArg } from "./locator";
 import { log, withLog } from "./log";
+import type { RouteInfo, RouteRule } from "./mock";
 import {
   deleteProfile,
   importProfile,
@@ -35,7 +46,13 @@ import {
   saveProfile,
 } from "./profiles";
 import { startBrowserServer } from "./server";
-import type { BrowserCliConfig, StorageState } from "./types";
+import type {
+  BrowserCliConfig,
+  ElementInspection,
+  HarReplayOptions,
+  NetworkEventDetail,
+  StorageState,
+} from "./types";
 
 // ============================================================================
 // Config Loading
@@ -119,6 +136,18 @@ const headedFlag = flag({
   description: "Run browser in headed mode",
 });
 
+const traceFlag = flag({
+  long: "trace",
+  description: "Record a Playwright trace (save with 'trace save -o run.zip')",
+});
+
+const harOption = option({
+  long: "har",
+  type: optional(string),
+  description:
+    "Serve requests from a recorded HAR file (unmatched are aborted)",
+});
+
 const configOption = option({
   long: "config",
   short: "c",
@@ -131,6 +160,11 @@ const jsonFlag = flag({
   description: "Output as JSON instead of text",
 });
 
+const diffFlag = flag({
+  long: "diff",
+  description: "Return changes since the last state instead of full state",
+});
+
 const profileOption = option({
   long: "profile",
   short: "p",
@@ -172,6 +206,43 @@ const heightOption = option({
 // Browser Options Resolution
 // ============================================================================
 
+/**
+ * Resolve route file paths relative to the config file
+ * (the daemon may run from a different cwd)
+ */
+function resolveRoutePaths(
+  routes: RouteRule[] | undefined,
+  configPath: string | null,
+): RouteRule[] | undefined {
+  if (!routes || !configPath) {
+    return routes;
+  }
+  const baseDir = path.dirname(configPath);
+  return routes.map((rule) =>
+    rule.path ? { ...rule, path: path.resolve(baseDir, rule.path) } : rule,
+  );
+}
+
+function resolveHarPath(
+  har: HarReplayOptions | undefined,
+  configPath: string | null,
+): HarReplayOptions | undefined {
+  if (!har || !configPath) {
+    return har;
+  }
+  return { ...har, path: path.resolve(path.dirname(configPath), har.path) };
+}
+
+function resolveConfigPath(
+  value: string | undefined,
+  configPath: string | null,
+): string | undefined {
+  if (!value || !configPath) {
+    return value;
+  }
+  return path.resolve(path.dirname(configPath), value);
+}
+
 type SessionBrowserOptions = AgentBrowserOptions & {
   profile?: string;
   noSave?: boolean;
@@ -186,6 +257,8 @@ async function resolveBrowserOptions(args: {
   noSave?: boolean;
   width?: number;
   height?: number;
+  trace?: boolean;
+  har?: string;
 }): Promise<SessionBrowserOptions> {
   const configPath = await findConfigPath(args.configPath);
   const config = configPath ? await loadConfig(configPath) : undefined;
@@ -218,6 +291,16 @@ async function resolveBrowserOptions(args: {
     timeout: config?.timeout,
     captureNetwork: config?.captureNetwork,
     networkLogLimit: config?.networkLogLimit,
+    trace: args.trace || config?.trace,
+    captureNetworkBodies: config?.captureNetworkBodies,
+    networkBodyLimit: config?.networkBodyLimit,
+    networkRedact: config?.networkRedact,
+    routes: resolveRoutePaths(config?.routes, configPath),
+    routeFromHar: args.har
+      ? { path: path.resolve(args.har) }
+      : resolveHarPath(config?.routeFromHar, configPath),
+    dialogPolicy: config?.dialogPolicy,
+    downloadsDir: resolveConfigPath(config?.downloadsDir, configPath),
     // Use resolved storage state (object or path)
     storageState: typeof storageState === "object" ? storageState : undefined,
     storageStatePath:
@@ -232,34 +315,109 @@ async function resolveBrowserOptions(args: {
 // Action Parsing
 // ============================================================================
 
+/**
+ * Parse an action target: a ref (button_0) or a semantic locator
+ * (role=button[name="Save"], label=Email, text="Sign in", testid=save, css=.btn)
+ */
+function parseTarget(value: string): {
+  ref?: string;
+  locator?: ElementLocator;
+} {
+  const locator = parseLocator(value);
+  return locator ? { locator } : { ref: value };
+}
+
+/**
+ * Parse "x:y" viewport coordinates, or null if the value isn't a pair of numbers
+ */
+function parseCoordinates(value: string): { x: number; y: number } | null {
+  const match = /^(-?\d+(?:\.\d+)?):(-?\d+(?:\.\d+)?)$/.exec(value);
+  return match ? { x: Number(match[1]), y: Number(match[2]) } : null;
+}
+
+/**
+ * Parse an optional load state suffix, e.g. the networkidle in back:networkidle
+ */
+function parseWaitUntil(
+  value: string | undefined,
+): { waitUntil: "load" | "domcontentloaded" | "networkidle" } | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (
+    value !== "load" &&
+    value !== "domcontentloaded" &&
+    value !== "networkidle"
+  ) {
+    throw new Error(
+      `Unknown load state: ${value} (use load, domcontentloaded, or networkidle)`,
+    );
+  }
+  return { waitUntil: value };
+}
+
 /**
  * Parse action strings into StepAction objects
  * Formats:
  *   navigate:http://localhost:3000
+ *   back
+ *   forward:networkidle
+ *   reload
+ *   reload:hard
  *   click:button_0
+ *   click:role=button[name="Save"]
  *   type:input_0:hello world
+ *   type:label=Email:user@example.com
  *   press:Enter
  *   scroll:down
  *   scroll:down:500
+ *   drag:card_0:column_2
+ *   drag:slider_0:400:300
+ *   mouseDown:100:200
+ *   mouseMove:300:200
+ *   mouseUp
+ *   clickAt:400:300
+ *   upload:input_3:./fixtures/a.png
+ *   upload:input_3:./a.png,./b.png
  *   resize:1920:1080
+ *   tab:new
+ *   tab:new:http://localhost:3000
+ *   tab:switch:1
+ *   tab:close
+ *   tab:close:1
+ *   dialog:accept
+ *   dialog:accept:prompt answer
+ *   dialog:dismiss
  */
 function parseAction(actionStr: string): StepAction {
   const parts = actionStr.split(":");
   const type = parts[0];
+  // Targets may contain colons inside quotes or brackets
+  const [target, rest = ""] = splitLocatorArg(actionStr.slice(type.length + 1));
 
   switch (type) {
     case "navigate":
       return { type: "navigate", url: parts.slice(1).join(":") };
 
-    case "click":
-      return { type: "click", ref: parts[1] };
+    case "back":
+    case "forward":
+      return { type, options: parseWaitUntil(parts[1]) };
 
-    case "type": {
-      const ref = parts[1];
-      const text = parts.slice(2).join(":");
-      return { type: "type", ref, text };
+    case "reload": {
+      const hard = parts[1] === "hard";
+      return {
+        type: "reload",
+        hard: hard || undefined,
+        options: parseWaitUntil(hard ? parts[2] : parts[1]),
+      };
     }
 
+    case "click":
+      return { type: "click", ...parseTarget(target) };
+
+    case "type":
+      return { type: "type", ...parseTarget(target), text: rest };
+
     case "press":
       return { type: "press", key: parts[1] };
 
@@ -270,12 +428,49 @@ function parseAction(actionStr: string): StepAction {
     }
 
     case "hover":
-      return { type: "hover", ref: parts[1] };
+      return { type: "hover", ...parseTarget(target) };
+
+    case "select":
+      return { type: "select", ...parseTarget(target), value: rest };
+
+    case "drag": {
+      const coords = parseCoordinates(rest);
+      if (!target || !rest) {
+        throw new Error(
+          "drag requires a source and a target ref or x:y (e.g. drag:card_0:column_2)",
+        );
+      }
+      return {
+        type: "drag",
+        ...parseTarget(target),
+        to: coords ?? parseTarget(rest),
+      };
+    }
+
+    case "mouseDown":
+    case "mouseUp":
+      return { type, ...parseCoordinates(parts.slice(1).join(":")) };
+
+    case "mouseMove":
+    case "clickAt": {
+      const coords = parseCoordinates(parts.slice(1).join(":"));
+      if (!coords) {
+        throw new Error(`${type} requires x:y (e.g. ${type}:400:300)`);
+      }
+      return { type, ...coords };
+    }
 
-    case "select": {
-      const ref = parts[1];
-      const value = parts.slice(2).join(":");
-      return { type: "select", ref, value };
+    case "upload": {
+      const files = rest
+        .split(",")
+        .filter((file) => file !== "")
+        .map((file) => path.resolve(file));
+      if (files.length === 0) {
+        throw new Error(
+          "upload requires a target and file(s) (e.g. upload:input_3:./a.png)",
+        );
+      }
+      return { type: "upload", ...parseTarget(target), files };
     }
 
     case "resize": {
@@ -287,11 +482,58 @@ function parseAction(actionStr: string): StepAction {
       return { type: "resize", width, height };
     }
 
+    case "tab":
+      return parseTabAction(parts.slice(1));
+
+    case "dialog": {
+      const action = parts[1];
+      if (action !== "accept" && action !== "dismiss") {
+        throw new Error(
+          "dialog requires accept or dismiss (e.g. dialog:accept, dialog:accept:answer)",
+        );
+      }
+      const promptText = parts.slice(2).join(":");
+      return {
+        type: "dialog",
+        action,
+        promptText: promptText !== "" ? promptText : undefined,
+      };
+    }
+
     default:
       throw new Error(`Unknown action type: ${type}`);
   }
 }
 
+function parseTabIndex(value: string): number | string {
+  const index = Number.parseInt(value, 10);
+  return Number.isNaN(index) ? value : index;
+}
+
+function parseTabAction(parts: string[]): StepAction {
+  const [subcommand, ...rest] = parts;
+  switch (subcommand) {
+    case "new": {
+      const url = rest.join(":");
+      return { type: "newTab", url: url || undefined };
+    }
+    case "switch":
+      if (!rest[0]) {
+        throw new Error("tab:switch requires a tab (e.g. tab:switch:1)");
+      }
+      return { type: "switchTab", tab: parseTabIndex(rest[0]) };
+    case "close":
+      return {
+        type: "closeTab",
+        tab: rest[0] ? parseTabIndex(rest[0]) : undefined,
+      };
+    default:
+      throw new Error(
+        `Unknown tab action: ${subcommand} (use tab:new, tab:switch:<n>, tab:close)`,
+      );
+  }
+}
+
 // ============================================================================
 // Commands
 // ============================================================================
@@ -404,6 +646,8 @@ const openCommand = command({
     noSave: noSaveFlag,
     width: widthOption,
     height: heightOption,
+    trace: traceFlag,
+    har: harOption,
   },
   handler: async (args) => {
     const browserOptions = await resolveBrowserOptions({
@@ -454,7 +698,7 @@ const openCommand = command({
 const actCommand = command({
   name: "act",
   description:
-    "Execute actions: click:ref, type:ref:text, press:key, scroll:dir",
+    'Execute actions: click:ref, type:ref:text, press:key, scroll:dir (targets can also be role=button[name="Save"], label=Email, text=..., testid=..., css=...)',
   args: {
     actions: restPositionals({ type: string, displayName: "actions" }),
     session: sessionOption,
@@ -467,6 +711,21 @@ const actCommand = command({
       long: "no-state",
       description: "Don't return state after actions",
     }),
+    diff: diffFlag,
+    retryStale: flag({
+      long: "retry-stale",
+      description: "Re-snapshot and retry once when a ref has gone stale",
+    }),
+    settle: flag({
+      long: "settle",
+      description:
+        "After each action, wait for its requests, navigation, and DOM changes to finish",
+    }),
+    settleTimeout: option({
+      long: "settle-timeout",
+      type: optional(number),
+      description: "Max ms to wait for each action to settle (default: 5000)",
+    }),
     profile: profileOption,
   },
   handler: async (args) => {
@@ -497,6 +756,12 @@ const actCommand = command({
     const actions = args.actions.map(parseAction);
     const response = await client.act(actions, {
       includeStateText: !args.noState,
+      includeDiff: args.diff,
+      retryStale: args.retryStale,
+      settle:
+        args.settle || args.settleTimeout != null
+          ? { timeoutMs: args.settleTimeout }
+          : undefined,
     });
 
     if (!response.success) {
@@ -521,9 +786,87 @@ const actCommand = command({
 });
 
 // --- wait ---
+
+/**
+ * Split "key=value" CLI arguments on the first "=", or on the last one when
+ * the key may itself contain "=" (selectors like [name=q])
+ */
+function splitKeyValue(
+  input: string,
+  flagName: string,
+  splitOn: "first" | "last" = "first",
+): [string, string] {
+  const idx = splitOn === "first" ? input.indexOf("=") : input.lastIndexOf("=");
+  if (idx <= 0) {
+    throw new Error(`${flagName} expects key=value (got "${input}")`);
+  }
+  return [input.slice(0, idx), input.slice(idx + 1)];
+}
+
+function parseJsonCondition(input: string): WaitCondition {
+  try {
+    return JSON.parse(input) as WaitCondition;
+  } catch {
+    throw new Error(`--expect must be a JSON condition (got "${input}")`);
+  }
+}
+
+/**
+ * Condition flags shared by wait and assert
+ */
+interface ConditionFlags {
+  selector?: string;
+  text?: string;
+  url?: string;
+  notSelector?: string;
+  notText?: string;
+  visible?: string;
+  enabled?: string;
+  value?: string;
+  count?: string;
+  networkIdle?: number;
+  noConsoleErrors?: boolean;
+  noServerErrors?: boolean;
+  expect?: string;
+}
+
+/**
+ * Turn CLI flags into one condition per flag
+ */
+function collectConditionLeaves(args: ConditionFlags): WaitCondition[] {
+  const leaves: WaitCondition[] = [];
+  if (args.selector) leaves.push({ selector: args.selector });
+  if (args.text) leaves.push({ text: args.text });
+  if (args.url) leaves.push({ url: args.url });
+  if (args.notSelector) leaves.push({ notSelector: args.notSelector });
+  if (args.notText) leaves.push({ notText: args.notText });
+  if (args.visible) leaves.push({ visible: args.visible });
+  if (args.enabled) leaves.push({ enabled: args.enabled });
+  if (args.value) {
+    const [ref, equals] = splitKeyValue(args.value, "--value");
+    leaves.push({ value: { ref, equals } });
+  }
+  if (args.count) {
+    const [selector, raw] = splitKeyValue(args.count, "--count", "last");
+    const equals = Number.parseInt(raw, 10);
+    if (Number.isNaN(equals)) {
+      throw new Error(`--count expects selector=N (got "${args.count}")`);
+    }
+    leaves.push({ count: { selector, equals } });
+  }
+  if (args.networkIdle != null) {
+    leaves.push({ networkIdleMs: args.networkIdle });
+  }
+  if (args.noConsoleErrors) leaves.push({ noConsoleErrors: true });
+  if (args.noServerErrors) leaves.push({ noServerErrors: true });
+  if (args.expect) leaves.push(parseJsonCondition(args.expect));
+  return leaves;
+}
+
 const waitCommand = command({
   name: "wait",
-  description: "Wait for --text, --selector, --url, or --not-* conditions",
+  description:
+    "Wait for --text, --selector, --url, --enabled, --value, --count, --network-idle, or --not-* conditions",
   args: {
     session: sessionOption,
     selector: option({
@@ -551,30 +894,53 @@ const waitCommand = command({
       type: optional(string),
       description: "Wait for text to disappear",
     }),
+    enabled: option({
+      long: "enabled",
+      type: optional(string),
+      description: "Wait for element ref to be enabled",
+    }),
+    value: option({
+      long: "value",
+      type: optional(string),
+      description: "Wait for input value (ref=value, e.g. input_0=hello)",
+    }),
+    count: option({
+      long: "count",
+      type: optional(string),
+      description: "Wait for element count (selector=N, e.g. li.todo=3)",
+    }),
+    networkIdle: option({
+      long: "network-idle",
+      type: optional(number),
+      description: "Wait until no requests for N ms",
+    }),
+    noConsoleErrors: flag({
+      long: "no-console-errors",
+      description: "Require no console errors while waiting",
+    }),
+    any: flag({
+      long: "any",
+      description: "Match when any condition holds (default: all)",
+    }),
+    expect: option({
+      long: "expect",
+      type: optional(string),
+      description:
+        'JSON condition tree, e.g. \'{"any":[{"text":"Saved"},{"text":"Error"}]}\'',
+    }),
     timeout: option({
       long: "timeout",
       type: number,
       defaultValue: () => 30000,
       description: "Timeout in ms (default: 30000)",
     }),
+    diff: diffFlag,
     json: jsonFlag,
   },
   handler: async (args) => {
-    const condition = {
-      selector: args.selector,
-      text: args.text,
-      url: args.url,
-      notSelector: args.notSelector,
-      notText: args.notText,
-    };
+    const leaves = collectConditionLeaves(args);
 
-    if (
-      !condition.selector &&
-      !condition.text &&
-      !condition.url &&
-      !condition.notSelector &&
-      !condition.notText
-    ) {
+    if (leaves.length === 0) {
       console.error("No wait condition provided");
       console.error(
         'Usage: agent-browser wait --text "Welcome" --timeout 5000',
@@ -582,11 +948,21 @@ const waitCommand = command({
       process.exit(1);
     }
 
+    const condition: WaitCondition =
+      leaves.length === 1
+        ? leaves[0]
+        : args.any
+          ? { any: leaves }
+          : { all: leaves };
+
     const client = await ensureDaemon(args.session ?? "default", undefined, {
       createIfMissing: false,
     });
 
-    const response = await client.wait(condition, { timeoutMs: args.timeout });
+    const response = await client.wait(condition, {
+      timeoutMs: args.timeout,
+      includeDiff: args.diff,
+    });
 
     if (!response.success) {
       console.error("Error:", response.error);
@@ -602,12 +978,254 @@ const waitCommand = command({
   },
 });
 
+// --- assert ---
+const assertCommand = command({
+  name: "assert",
+  description:
+    "Check conditions once and report pass/fail (exit code 1 on failure)",
+  args: {
+    session: sessionOption,
+    text: option({
+      long: "text",
+      type: optional(string),
+      description: "Text is present on the page",
+    }),
+    selector: option({
+      long: "selector",
+      type: optional(string),
+      description: "Selector is visible",
+    }),
+    notText: option({
+      long: "not-text",
+      type: optional(string),
+      description: "Text is absent",
+    }),
+    visible: option({
+      long: "visible",
+      type: optional(string),
+      description: "Element ref is visible",
+    }),
+    url: option({
+      long: "url",
+      type: optional(string),
+      description: "URL contains value",
+    }),
+    value: option({
+      long: "value",
+      type: optional(string),
+      description: "Input value equals (ref=value, e.g. input_0=hello)",
+    }),
+    count: option({
+      long: "count",
+      type: optional(string),
+      description: "Element count equals (selector=N, e.g. li.todo=3)",
+    }),
+    noServerErrors: flag({
+      long: "no-server-errors",
+      description: "No 5xx network responses captured",
+    }),
+    noConsoleErrors: flag({
+      long: "no-console-errors",
+      description: "No console errors captured",
+    }),
+    any: flag({
+      long: "any",
+      description: "Pass when any condition holds (default: check each)",
+    }),
+    expect: option({
+      long: "expect",
+      type: optional(string),
+      description: "JSON condition tree (same format as wait --expect)",
+    }),
+    json: jsonFlag,
+  },
+  handler: async (args) => {
+    const leaves = collectConditionLeaves(args);
+
+    if (leaves.length === 0) {
+      console.error("No assertion provided");
+      console.error(
+        'Usage: agent-browser assert --text "Welcome" --url /dashboard',
+      );
+      process.exit(1);
+    }
+
+    // Each flag is its own assertion so failures are reported individually
+    const actions: StepAction[] = args.any
+      ? [{ type: "assert", expect: { any: leaves } }]
+      : leaves.map((expect) => ({ type: "assert", expect }));
+
+    const client = await ensureDaemon(args.session ?? "default", undefined, {
+      createIfMissing: false,
+    });
+
+    const response = await client.act(actions, {
+      haltOnError: false,
+      includeStateText: false,
+    });
+
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+
+    const data = response.data as { text?: string; error?: string };
+    if (args.json) {
+      console.log(JSON.stringify(response.data, null, 2));
+    } else {
+      console.log(data.text ?? "Assertions completed");
+    }
+
+    if (data.error) {
+      process.exit(1);
+    }
+  },
+});
+
+// --- record ---
+const recordStartCommand = command({
+  name: "start",
+  description: "Start recording actions, waits, and assertions to a flow file",
+  args: {
+    file: positional({ type: string, displayName: "file" }),
+    session: sessionOption,
+  },
+  handler: async (args) => {
+    const client = await ensureDaemon(args.session ?? "default", undefined, {
+      createIfMissing: false,
+    });
+
+    // The daemon may run from a different cwd
+    const response = await client.record("start", {
+      path: path.resolve(args.file),
+    });
+
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+
+    const data = response.data as { path: string };
+    console.log(`Recording to ${data.path}`);
+  },
+});
+
+const recordStopCommand = command({
+  name: "stop",
+  description: "Stop recording and write the flow file",
+  args: {
+    session: sessionOption,
+  },
+  handler: async (args) => {
+    const client = await ensureDaemon(args.session ?? "default", undefined, {
+      createIfMissing: false,
+    });
+
+    const response = await client.record("stop");
+
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+
+    const data = response.data as { path: string; steps: number };
+    console.log(`Saved ${data.steps} step(s) to ${data.path}`);
+  },
+});
+
+const recordCommand = subcommands({
+  name: "record",
+  cmds: {
+    start: recordStartCommand,
+    stop: recordStopCommand,
+  },
+});
+
+// --- replay ---
+const replayCommand = command({
+  name: "replay",
+  description: "Replay a recorded .flow.json file (exit code 1 on failure)",
+  args: {
+    file: positional({ type: string, displayName: "file" }),
+    session: sessionOption,
+    new: newSessionFlag,
+    headless: headlessFlag,
+    headed: headedFlag,
+    config: configOption,
+    json: jsonFlag,
+    profile: profileOption,
+  },
+  handler: async (args) => {
+    const resolved = path.resolve(args.file);
+    const file = Bun.file(resolved);
+    if (!(await file.exists())) {
+      console.error(`Flow file not found: ${resolved}`);
+      process.exit(1);
+    }
+
+    const parsed = flowSchema.safeParse(await file.json());
+    if (!parsed.success) {
+      console.error(`Invalid flow file: ${resolved}`);
+      console.error(parsed.error.message);
+      process.exit(1);
+    }
+
+    const browserOptions = await resolveBrowserOptions({
+      ...args,
+      configPath: args.config,
+    });
+
+    let client: DaemonClient;
+    if (args.new) {
+      client = await ensureDaemonNewSession(browserOptions);
+    } else if (args.session) {
+      client = await ensureDaemon(args.session, browserOptions, {
+        createIfMissing: false,
+      });
+    } else {
+      client = await ensureDaemon("default", browserOptions);
+    }
+
+    const response = await client.replay(parsed.data);
+
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+
+    const data = response.data as {
+      text?: string;
+      report: { passed: boolean };
+    };
+    if (args.json) {
+      console.log(JSON.stringify(response.data, null, 2));
+    } else {
+      if (args.new) {
+        console.log(`Session: ${client.getSessionId()}`);
+      }
+      console.log(data.text ?? "Replay completed");
+    }
+
+    if (!data.report.passed) {
+      process.exit(1);
+    }
+  },
+});
+
 // --- state ---
 const stateCommand = command({
   name: "state",
   description: "Get current browser state",
   args: {
     session: sessionOption,
+    diff: flag({
+      long: "diff",
+      description: "Only show changes since the last state",
+    }),
+    viewportOnly: flag({
+      long: "viewport-only",
+      description: "Only list elements inside the viewport",
+    }),
     json: jsonFlag,
   },
   handler: async (args) => {
@@ -617,6 +1235,8 @@ const stateCommand = command({
 
     const response = await client.state({
       format: args.json ? "json" : "text",
+      diff: args.diff,
+      stateOptions: args.viewportOnly ? { viewportOnly: true } : undefined,
     });
 
     if (!response.success) {
@@ -624,9 +1244,19 @@ const stateCommand = command({
       process.exit(1);
     }
 
-    const data = response.data as { text?: string; state?: unknown };
+    const data = response.data as {
+      text?: string;
+      state?: unknown;
+      diff?: unknown;
+    };
     if (args.json) {
-      console.log(JSON.stringify(data.state, null, 2));
+      console.log(
+        JSON.stringify(
+          args.diff ? (data.diff ?? data.state) : data.state,
+          null,
+          2,
+        ),
+      );
     } else {
       console.log(data.text);
     }
@@ -682,6 +1312,442 @@ const screenshotCommand = command({
   },
 });
 
+// --- trace ---
+
+/**
+ * Send a trace command and print the result
+ */
+async function runTraceAction(
+  sessionId: string | undefined,
+  action: "start" | "stop" | "save",
+  output?: string,
+): Promise<void> {
+  const client = await ensureDaemon(sessionId ?? "default", undefined, {
+    createIfMissing: false,
+  });
+
+  // The daemon may run from a different cwd
+  const tracePath = output ? path.resolve(output) : undefined;
+  const response = await client.command({
+    type: "trace",
+    action,
+    path: tracePath,
+  });
+
+  if (!response.success) {
+    console.error("Error:", response.error);
+    process.exit(1);
+  }
+
+  if (action === "start") {
+    console.log("Tracing started");
+  } else if (tracePath) {
+    console.log(`Trace saved to ${tracePath}`);
+    console.log(`View with: bunx playwright show-trace ${tracePath}`);
+  } else {
+    console.log("Tracing stopped (trace discarded)");
+  }
+}
+
+const traceStartCommand = command({
+  name: "start",
+  description: "Start recording a Playwright trace",
+  args: {
+    session: sessionOption,
+  },
+  handler: async (args) => {
+    await runTraceAction(args.session, "start");
+  },
+});
+
+const traceSaveCommand = command({
+  name: "save",
+  description: "Save the trace so far and keep recording",
+  args: {
+    session: sessionOption,
+    output: option({
+      long: "output",
+      short: "o",
+      type: string,
+      description: "Trace file path (e.g. run.zip)",
+    }),
+  },
+  handler: async (args) => {
+    await runTraceAction(args.session, "save", args.output);
+  },
+});
+
+const traceStopCommand = command({
+  name: "stop",
+  description: "Stop recording (saves the trace if -o is given)",
+  args: {
+    session: sessionOption,
+    output: option({
+      long: "output",
+      short: "o",
+      type: optional(string),
+      description: "Trace file path (e.g. run.zip)",
+    }),
+  },
+  handler: async (args) => {
+    await runTraceAction(args.session, "stop", args.output);
+  },
+});
+
+const traceCommand = subcommands({
+  name: "trace",
+  cmds: {
+    start: traceStartCommand,
+    save: traceSaveCommand,
+    stop: traceStopCommand,
+  },
+});
+
+// --- network ---
+const networkCommand = command({
+  name: "network",
+  description: "Show headers and bodies for a request ID (e.g. req-12)",
+  args: {
+    id: positional({ type: string, displayName: "id" }),
+    session: sessionOption,
+    json: jsonFlag,
+  },
+  handler: async (args) => {
+    const client = await ensureDaemon(args.session ?? "default", undefined, {
+      createIfMissing: false,
+    });
+
+    const response = await client.command({
+      type: "getNetworkEvent",
+      id: args.id,
+    });
+
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+
+    if (args.json) {
+      console.log(JSON.stringify(response.data, null, 2));
+    } else {
+      console.log(formatNetworkEventText(response.data as NetworkEventDetail));
+    }
+  },
+});
+
+// --- downloads ---
+const downloadsCommand = command({
+  name: "downloads",
+  description:
+    "List downloaded files with their paths and a preview of text files",
+  args: {
+    id: positional({
+      type: optional(string),
+      displayName: "id",
+    }),
+    session: sessionOption,
+    lines: option({
+      long: "lines",
+      type: optional(number),
+      description: "Lines of text files to preview (default: 10)",
+    }),
+    json: jsonFlag,
+  },
+  handler: async (args) => {
+    const client = await ensureDaemon(args.session ?? "default", undefined, {
+      createIfMissing: false,
+    });
+
+    const response = await client.command({
+      type: "downloads",
+      id: args.id,
+      previewLines: args.lines,
+    });
+
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+
+    if (args.json) {
+      console.log(JSON.stringify(response.data, null, 2));
+    } else {
+      console.log(formatDownloadsText(response.data as DownloadDetail[]));
+    }
+  },
+});
+
+// --- inspect ---
+const inspectCommand = command({
+  name: "inspect",
+  description:
+    "Inspect an element (styles, box, what covers it, listeners, parents)",
+  args: {
+    target: positional({ type: string, displayName: "ref" }),
+    session: sessionOption,
+    json: jsonFlag,
+  },
+  handler: async (args) => {
+    const client = await ensureDaemon(args.session ?? "default", undefined, {
+      createIfMissing: false,
+    });
+
+    const response = await client.command({
+      type: "inspect",
+      ...parseTarget(args.target),
+    });
+
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+
+    if (args.json) {
+      console.log(JSON.stringify(response.data, null, 2));
+    } else {
+      console.log(formatInspectText(response.data as ElementInspection));
+    }
+  },
+});
+
+// --- dialogs ---
+const dialogsCommand = command({
+  name: "dialogs",
+  description:
+    "Show or set how JavaScript dialogs are answered: --policy accept|dismiss|manual",
+  args: {
+    session: sessionOption,
+    policy: option({
+      long: "policy",
+      type: optional(string),
+      description:
+        "accept, dismiss, or manual (leave open for dialog:accept/dialog:dismiss)",
+    }),
+    promptText: option({
+      long: "prompt-text",
+      type: optional(string),
+      description: "Answer prompt() dialogs with this text when accepting",
+    }),
+  },
+  handler: async (args) => {
+    const client = await ensureDaemon(args.session ?? "default", undefined, {
+      createIfMissing: false,
+    });
+
+    const policy = args.policy
+      ? dialogPolicySchema.parse({
+          action: args.policy,
+          promptText: args.promptText,
+        })
+      : undefined;
+    const response = await client.command({ type: "dialogPolicy", policy });
+
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+
+    const current = response.data as DialogPolicy;
+    console.log(
+      `Dialog policy: ${current.action}${current.promptText != null ? ` (prompt text ${JSON.stringify(current.promptText)})` : ""}`,
+    );
+  },
+});
+
+// --- har ---
+const harCommand = command({
+  name: "har",
+  description: "Export captured network traffic as HAR 1.2",
+  args: {
+    session: sessionOption,
+    output: option({
+      long: "output",
+      short: "o",
+      type: optional(string),
+      description: "Save to file path instead of printing",
+    }),
+    replay: flag({
+      long: "replay",
+      description:
+        "Only include entries that replay exactly (full, unredacted text bodies)",
+    }),
+  },
+  handler: async (args) => {
+    const client = await ensureDaemon(args.session ?? "default", undefined, {
+      createIfMissing: false,
+    });
+    const replayable = args.replay || undefined;
+
+    if (args.output) {
+      // The daemon may run from a different cwd
+      const harPath = path.resolve(args.output);
+      const response = await client.command({
+        type: "dumpHar",
+        path: harPath,
+        replayable,
+      });
+      if (!response.success) {
+        console.error("Error:", response.error);
+        process.exit(1);
+      }
+      console.log(`HAR saved to ${harPath}`);
+      return;
+    }
+
+    const response = await client.command({ type: "getHar", replayable });
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+    console.log(JSON.stringify(response.data, null, 2));
+  },
+});
+
+// --- route ---
+const routeCommand = command({
+  name: "route",
+  description:
+    "Mock requests matching a URL glob: --status, --body, --json-body, --file, --delay, --abort",
+  args: {
+    url: positional({ type: string, displayName: "url" }),
+    session: sessionOption,
+    regex: flag({
+      long: "regex",
+      description: "Treat url as a regular expression",
+    }),
+    method: option({
+      long: "method",
+      type: optional(string),
+      description: "Only match this HTTP method",
+    }),
+    status: option({
+      long: "status",
+      type: optional(number),
+      description: "Response status (default: 200)",
+    }),
+    body: option({
+      long: "body",
+      type: optional(string),
+      description: "Response body text",
+    }),
+    jsonBody: option({
+      long: "json-body",
+      type: optional(string),
+      description: "Response body as JSON",
+    }),
+    file: option({
+      long: "file",
+      type: optional(string),
+      description: "Serve the response body from a file",
+    }),
+    contentType: option({
+      long: "content-type",
+      type: optional(string),
+      description: "Response content type",
+    }),
+    delay: option({
+      long: "delay",
+      type: optional(number),
+      description: "Delay before responding (ms)",
+    }),
+    abort: flag({
+      long: "abort",
+      description: "Abort matching requests instead of responding",
+    }),
+    times: option({
+      long: "times",
+      type: optional(number),
+      description: "Remove the rule after N matches",
+    }),
+    json: jsonFlag,
+  },
+  handler: async (args) => {
+    let json: unknown;
+    if (args.jsonBody !== undefined) {
+      try {
+        json = JSON.parse(args.jsonBody);
+      } catch {
+        throw new Error(
+          `--json-body must be valid JSON (got "${args.jsonBody}")`,
+        );
+      }
+    }
+
+    const client = await ensureDaemon(args.session ?? "default", undefined, {
+      createIfMissing: false,
+    });
+
+    const response = await client.command({
+      type: "route",
+      url: args.url,
+      regex: args.regex || undefined,
+      method: args.method,
+      status: args.status,
+      body: args.body,
+      json,
+      // The daemon may run from a different cwd
+      path: args.file ? path.resolve(args.file) : undefined,
+      contentType: args.contentType,
+      delayMs: args.delay,
+      abort: args.abort || undefined,
+      times: args.times,
+    });
+
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+
+    const route = response.data as RouteInfo;
+    if (args.json) {
+      console.log(JSON.stringify(route, null, 2));
+    } else {
+      console.log(`Added ${route.id} for ${route.url}`);
+    }
+  },
+});
+
+// --- unroute ---
+const unrouteCommand = command({
+  name: "unroute",
+  description: "Remove a mock rule by id, by --url, or all rules",
+  args: {
+    id: positional({
+      type: optional(string),
+      displayName: "id",
+    }),
+    session: sessionOption,
+    url: option({
+      long: "url",
+      type: optional(string),
+      description: "Remove all rules for this URL pattern",
+    }),
+  },
+  handler: async (args) => {
+    const client = await ensureDaemon(args.session ?? "default", undefined, {
+      createIfMissing: false,
+    });
+
+    const response = await client.command({
+      type: "unroute",
+      id: args.id,
+      url: args.url,
+    });
+
+    if (!response.success) {
+      console.error("Error:", response.error);
+      process.exit(1);
+    }
+
+    const { removed } = response.data as { removed: string[] };
+    console.log(
+      removed.length > 0
+        ? `Removed ${removed.join(", ")}`
+        : "No routes removed",
+    );
+  },
+});
+
 // --- resize ---
 const resizeCommand = command({
   name: "resize",
@@ -958,6 +2024,14 @@ const serverCommand = command({
         captureNetwork: args.noNetwork ? false : config?.captureNetwork,
         networkLogLimit: args.networkLogLimit || config?.networkLogLimit,
         storageStatePath: args.storageStatePath ?? config?.storageStatePath,
+        trace: config?.trace,
+        captureNetworkBodies: config?.captureNetworkBodies,
+        networkBodyLimit: config?.networkBodyLimit,
+        networkRedact: config?.networkRedact,
+        routes: resolveRoutePaths(config?.routes, configPath),
+        routeFromHar: resolveHarPath(config?.routeFromHar, configPath),
+        dialogPolicy: config?.dialogPolicy,
+        downloadsDir: resolveConfigPath(config?.downloadsDir, configPath),
       };
 
       const host = args.host.trim() || config?.serverHost || "localhost";
@@ -1340,8 +2414,19 @@ const cli = subcommands({
     open: openCommand,
     act: actCommand,
     wait: waitCommand,
+    assert: assertCommand,
+    record: recordCommand,
+    replay: replayCommand,
     state: stateCommand,
     screenshot: screenshotCommand,
+    trace: traceCommand,
+    network: networkCommand,
+    inspect: inspectCommand,
+    downloads: downloadsCommand,
+    dialogs: dialogsCommand,
+    har: harCommand,
+    route: routeCommand,
+    unroute: unrouteCommand,
     resize: resizeCommand,
     close: closeCommand,
     sessions: sessionsCommand,
@@ -1,7 +1,33 @@
 import { z } from "zod";
+import { ActionError, type ActionErrorDetail } from "./action-errors";
 import type { AgentBrowser } from "./browser";
+import { describeCondition, isEmptyCondition } from "./conditions";
+import { dialogPolicySchema } from "./dialogs";
+import { formatDiffText, type StateDiff } from "./diff";
+import { type DownloadDetail, describeDownload } from "./downloads";
+import {
+  type ActionEffects,
+  describeEffects,
+  type EffectsRecorder,
+} from "./effects";
+import { describeLocator, elementLocatorSchema } from "./locator";
+import { routeRuleSchema } from "./mock";
+import { describeFingerprint, StaleRefError } from "./ref-store";
+import {
+  describeSettle,
+  resolveSettleOptions,
+  type SettleReport,
+  type SettleSetting,
+  type SettleTracker,
+} from "./settle";
 import { formatStateText } from "./state";
-import type { BrowserState, GetStateOptions } from "./types";
+import type {
+  BrowserState,
+  ElementInspection,
+  GetStateOptions,
+  NetworkEventDetail,
+  WaitCondition,
+} from "./types";
 
 // ============================================================================
 // Command Schemas
@@ -15,6 +41,7 @@ const navigateOptionsSchema = z.object({
 const clickOptionsSchema = z.object({
   ref: z.string().optional(),
   index: z.number().int().optional(),
+  locator: elementLocatorSchema.optional(),
   double: z.boolean().optional(),
   button: z.enum(["left", "right", "middle"]).optional(),
   modifiers: z.array(z.enum(["Alt", "Control", "Meta", "Shift"])).optional(),
@@ -23,6 +50,7 @@ const clickOptionsSchema = z.object({
 const typeOptionsSchema = z.object({
   ref: z.string().optional(),
   index: z.number().int().optional(),
+  locator: elementLocatorSchema.optional(),
   text: z.string(),
   submit: z.boolean().optional(),
   clear: z.boolean().optional(),
@@ -80,6 +108,23 @@ const typeCommandSchema = z
   .object({ type: z.literal("type") })
   .extend(typeOptionsSchema.shape);
 
+const backCommandSchema = z.object({
+  type: z.literal("back"),
+  options: navigateOptionsSchema.optional(),
+});
+
+const forwardCommandSchema = z.object({
+  type: z.literal("forward"),
+  options: navigateOptionsSchema.optional(),
+});
+
+const reloadCommandSchema = z.object({
+  type: z.literal("reload"),
+  /** Bypass the HTTP cache */
+  hard: z.boolean().optional(),
+  options: navigateOptionsSchema.optional(),
+});
+
 const pressCommandSchema = z.object({
   type: z.literal("press"),
   key: z.string(),
@@ -95,15 +140,80 @@ const hoverCommandSchema = z.object({
   type: z.literal("hover"),
   ref: z.string().optional(),
   index: z.number().int().optional(),
+  locator: elementLocatorSchema.optional(),
 });
 
 const selectCommandSchema = z.object({
   type: z.literal("select"),
   ref: z.string().optional(),
   index: z.number().int().optional(),
+  locator: elementLocatorSchema.optional(),
   value: z.union([z.string(), z.array(z.string())]),
 });
 
+const mouseButtonSchema = z.enum(["left", "right", "middle"]);
+
+const dragCommandSchema = z.object({
+  type: z.literal("drag"),
+  ref: z.string().optional(),
+  index: z.number().int().optional(),
+  locator: elementLocatorSchema.optional(),
+  to: z.object({
+    ref: z.string().optional(),
+    index: z.number().int().optional(),
+    locator: elementLocatorSchema.optional(),
+    x: z.number().optional(),
+    y: z.number().optional(),
+  }),
+  steps: z.number().int().positive().optional(),
+});
+
+const mouseDownCommandSchema = z.object({
+  type: z.literal("mouseDown"),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  button: mouseButtonSchema.optional(),
+});
+
+const mouseMoveCommandSchema = z.object({
+  type: z.literal("mouseMove"),
+  x: z.number(),
+  y: z.number(),
+  steps: z.number().int().positive().optional(),
+});
+
+const mouseUpCommandSchema = z.object({
+  type: z.literal("mouseUp"),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  button: mouseButtonSchema.optional(),
+});
+
+const clickAtCommandSchema = z.object({
+  type: z.literal("clickAt"),
+  x: z.number(),
+  y: z.number(),
+  button: mouseButtonSchema.optional(),
+  double: z.boolean().optional(),
+});
+
+const uploadFileSchema = z.union([
+  z.string(),
+  z.object({
+    name: z.string(),
+    mimeType: z.string(),
+    base64: z.string(),
+  }),
+]);
+
+const uploadCommandSchema = z.object({
+  type: z.literal("upload"),
+  ref: z.string().optional(),
+  index: z.number().int().optional(),
+  locator: elementLocatorSchema.optional(),
+  files: z.array(uploadFileSchema).min(1),
+});
+
 const waitForNavigationCommandSchema = z.object({
   type: z.literal("waitForNavigation"),
   options: waitForNavigationOptionsSchema.optional(),
@@ -127,6 +237,24 @@ const resizeCommandSchema = z.object({
   height: z.number().int().positive(),
 });
 
+const routeCommandSchema = routeRuleSchema.extend({
+  type: z.literal("route"),
+});
+
+const unrouteCommandSchema = z.object({
+  type: z.literal("unroute"),
+  /** Rule id from route (e.g. "route-0") */
+  id: z.string().optional(),
+  /** Remove all rules registered for this URL pattern */
+  url: z.string().optional(),
+});
+
+const traceCommandSchema = z.object({
+  type: z.literal("trace"),
+  action: z.enum(["start", "stop", "save"]),
+  path: z.string().optional(),
+});
+
 const saveStorageStateCommandSchema = z.object({
   type: z.literal("saveStorageState"),
   path: z.string().optional(),
@@ -149,6 +277,18 @@ const dumpNetworkLogsCommandSchema = z
   .object({ type: z.literal("dumpNetworkLogs") })
   .extend(dumpNetworkOptionsSchema.shape);
 
+// Only entries routeFromHar can replay as recorded
+const harOptionsSchema = z.object({ replayable: z.boolean().optional() });
+
+const getHarCommandSchema = z
+  .object({ type: z.literal("getHar") })
+  .extend(harOptionsSchema.shape);
+
+const dumpHarCommandSchema = z
+  .object({ type: z.literal("dumpHar") })
+  .extend(dumpNetworkOptionsSchema.shape)
+  .extend(harOptionsSchema.shape);
+
 const getConsoleLogsCommandSchema = z.object({
   type: z.literal("getConsoleLogs"),
 });
@@ -161,6 +301,26 @@ const getNetworkLogsCommandSchema = z.object({
   type: z.literal("getNetworkLogs"),
 });
 
+const downloadsCommandSchema = z.object({
+  type: z.literal("downloads"),
+  /** Only this download (e.g. download-0) */
+  id: z.string().optional(),
+  /** Lines of text files to preview (default: 10) */
+  previewLines: z.number().int().min(0).optional(),
+});
+
+const inspectCommandSchema = z.object({
+  type: z.literal("inspect"),
+  ref: z.string().optional(),
+  index: z.number().int().optional(),
+  locator: elementLocatorSchema.optional(),
+});
+
+const getNetworkEventCommandSchema = z.object({
+  type: z.literal("getNetworkEvent"),
+  id: z.string().min(1),
+});
+
 const clearNetworkLogsCommandSchema = z.object({
   type: z.literal("clearNetworkLogs"),
 });
@@ -169,80 +329,277 @@ const enableNetworkCaptureCommandSchema = z.object({
   type: z.literal("enableNetworkCapture"),
 });
 
+const tabRefSchema = z.union([z.number().int().nonnegative(), z.string()]);
+
+const newTabCommandSchema = z.object({
+  type: z.literal("newTab"),
+  url: z.string().optional(),
+  options: navigateOptionsSchema.optional(),
+});
+
+const switchTabCommandSchema = z.object({
+  type: z.literal("switchTab"),
+  tab: tabRefSchema,
+});
+
+const closeTabCommandSchema = z.object({
+  type: z.literal("closeTab"),
+  tab: tabRefSchema.optional(),
+});
+
+// Wait condition schema (recursive: all/any/not nest further conditions)
+export const waitConditionSchema = z
+  .object({
+    selector: z.string().min(1).optional(),
+    text: z.string().min(1).optional(),
+    url: z.string().min(1).optional(),
+    notSelector: z.string().min(1).optional(),
+    notText: z.string().min(1).optional(),
+    visible: z.string().min(1).optional(),
+    enabled: z.string().min(1).optional(),
+    value: z.object({ ref: z.string().min(1), equals: z.string() }).optional(),
+    count: z
+      .object({ selector: z.string().min(1), equals: z.number().int().min(0) })
+      .optional(),
+    networkIdleMs: z.number().int().min(0).optional(),
+    noConsoleErrors: z.boolean().optional(),
+    noServerErrors: z.boolean().optional(),
+    get all() {
+      return z.array(waitConditionSchema).optional();
+    },
+    get any() {
+      return z.array(waitConditionSchema).optional();
+    },
+    get not() {
+      return waitConditionSchema.optional();
+    },
+  })
+  .meta({ id: "WaitCondition" });
+
+const assertCommandSchema = z.object({
+  type: z.literal("assert"),
+  expect: waitConditionSchema,
+});
+
+const dialogCommandSchema = z.object({
+  type: z.literal("dialog"),
+  action: z.enum(["accept", "dismiss"]),
+  /** Answer for a prompt() */
+  promptText: z.string().optional(),
+});
+
+const dialogPolicyCommandSchema = z.object({
+  type: z.literal("dialogPolicy"),
+  /** New policy (omit to read the current one) */
+  policy: dialogPolicySchema.optional(),
+});
+
 const closeCommandSchema = z.object({ type: z.literal("close") });
 
 // Step actions - subset that can be batched
 export const stepActionSchema = z.discriminatedUnion("type", [
   navigateCommandSchema,
+  backCommandSchema,
+  forwardCommandSchema,
+  reloadCommandSchema,
   clickCommandSchema,
   typeCommandSchema,
   pressCommandSchema,
   scrollCommandSchema,
   hoverCommandSchema,
   selectCommandSchema,
+  uploadCommandSchema,
+  dragCommandSchema,
+  mouseDownCommandSchema,
+  mouseMoveCommandSchema,
+  mouseUpCommandSchema,
+  clickAtCommandSchema,
   waitForNavigationCommandSchema,
   waitForElementCommandSchema,
   screenshotCommandSchema,
   saveStorageStateCommandSchema,
   resizeCommandSchema,
+  newTabCommandSchema,
+  switchTabCommandSchema,
+  closeTabCommandSchema,
+  assertCommandSchema,
+  dialogCommandSchema,
 ]);
 
 // All commands
 export const commandSchema = z.discriminatedUnion("type", [
   navigateCommandSchema,
+  backCommandSchema,
+  forwardCommandSchema,
+  reloadCommandSchema,
   clickCommandSchema,
   typeCommandSchema,
   pressCommandSchema,
   scrollCommandSchema,
   hoverCommandSchema,
   selectCommandSchema,
+  uploadCommandSchema,
+  dragCommandSchema,
+  mouseDownCommandSchema,
+  mouseMoveCommandSchema,
+  mouseUpCommandSchema,
+  clickAtCommandSchema,
   waitForNavigationCommandSchema,
   waitForElementCommandSchema,
   getStateCommandSchema,
   dumpStateCommandSchema,
   dumpStateTextCommandSchema,
   dumpNetworkLogsCommandSchema,
+  getHarCommandSchema,
+  dumpHarCommandSchema,
   screenshotCommandSchema,
   getConsoleLogsCommandSchema,
   clearConsoleLogsCommandSchema,
   getNetworkLogsCommandSchema,
+  getNetworkEventCommandSchema,
+  inspectCommandSchema,
+  downloadsCommandSchema,
   clearNetworkLogsCommandSchema,
   enableNetworkCaptureCommandSchema,
   saveStorageStateCommandSchema,
   resizeCommandSchema,
+  newTabCommandSchema,
+  switchTabCommandSchema,
+  closeTabCommandSchema,
+  assertCommandSchema,
+  dialogCommandSchema,
+  dialogPolicyCommandSchema,
+  traceCommandSchema,
+  routeCommandSchema,
+  unrouteCommandSchema,
   closeCommandSchema,
 ]);
 
-// Wait condition schema
-export const waitConditionSchema = z.object({
-  selector: z.string().min(1).optional(),
-  text: z.string().min(1).optional(),
-  url: z.string().min(1).optional(),
-  notSelector: z.string().min(1).optional(),
-  notText: z.string().min(1).optional(),
-});
-
 // Derive types
 export type StepAction = z.infer<typeof stepActionSchema>;
 export type Command = z.infer<typeof commandSchema>;
-export type WaitCondition = z.infer<typeof waitConditionSchema>;
+export type { WaitCondition };
 
 // ============================================================================
 // Command Execution
 // ============================================================================
 
+// Commands that don't evaluate anything in the page, so they still work
+// while a dialog blocks it
+const DIALOG_SAFE_COMMANDS = new Set<Command["type"]>([
+  "dialog",
+  "dialogPolicy",
+  "getState",
+  "dumpState",
+  "dumpStateText",
+  "getConsoleLogs",
+  "clearConsoleLogs",
+  "getNetworkLogs",
+  "getNetworkEvent",
+  "clearNetworkLogs",
+  "dumpNetworkLogs",
+  "enableNetworkCapture",
+  "getHar",
+  "dumpHar",
+  "downloads",
+  "route",
+  "unroute",
+  "newTab",
+  "switchTab",
+  "closeTab",
+  "trace",
+  "close",
+]);
+
 /**
  * Execute a single command against an AgentBrowser.
  * Returns data for query commands, undefined for action commands.
+ * While tracing, each command is grouped as one step in the trace.
  */
 export async function executeCommand(
   browser: AgentBrowser,
   command: Command,
+): Promise<unknown | undefined> {
+  if (!DIALOG_SAFE_COMMANDS.has(command.type)) {
+    browser.assertNoPendingDialog();
+  }
+  if (command.type === "trace") {
+    return runTraceCommand(browser, command);
+  }
+  return browser.withTraceGroup(describeCommand(command), () =>
+    runCommand(browser, command),
+  );
+}
+
+/**
+ * Short label for a command (used as the trace group title)
+ */
+function describeCommand(command: Command): string {
+  if ("url" in command && command.url) {
+    return `${command.type} ${command.url}`;
+  }
+  if ("ref" in command && command.ref) {
+    return `${command.type} ${command.ref}`;
+  }
+  if ("locator" in command && command.locator) {
+    return `${command.type} ${describeLocator(command.locator)}`;
+  }
+  if ("index" in command && command.index != null) {
+    return `${command.type} #${command.index}`;
+  }
+  if ("x" in command && command.x != null) {
+    return `${command.type} ${command.x},${command.y}`;
+  }
+  if (command.type === "press") {
+    return `press ${command.key}`;
+  }
+  if (command.type === "reload" && command.hard) {
+    return "reload (hard)";
+  }
+  if (command.type === "dialog") {
+    return `dialog ${command.action}`;
+  }
+  if (command.type === "assert") {
+    return `assert ${describeCondition(command.expect)}`;
+  }
+  return command.type;
+}
+
+async function runTraceCommand(
+  browser: AgentBrowser,
+  command: Extract<Command, { type: "trace" }>,
+): Promise<unknown> {
+  switch (command.action) {
+    case "start":
+      await browser.startTrace();
+      return { tracing: true };
+    case "stop":
+      return browser.stopTrace(command.path);
+    case "save":
+      if (!command.path) {
+        throw new Error("trace save requires a path");
+      }
+      return browser.saveTrace(command.path);
+  }
+}
+
+async function runCommand(
+  browser: AgentBrowser,
+  command: Exclude<Command, { type: "trace" }>,
 ): Promise<unknown | undefined> {
   switch (command.type) {
     case "navigate":
       await browser.navigate(command.url, command.options);
       return;
+    case "back":
+      await browser.back(command.options);
+      return;
+    case "forward":
+      await browser.forward(command.options);
+      return;
+    case "reload":
+      await browser.reload({ ...command.options, hard: command.hard });
+      return;
     case "click":
       await browser.click(command);
       return;
@@ -261,6 +618,24 @@ export async function executeCommand(
     case "select":
       await browser.select(command);
       return;
+    case "upload":
+      await browser.upload(command);
+      return;
+    case "drag":
+      await browser.drag(command);
+      return;
+    case "mouseDown":
+      await browser.mouseDown(command);
+      return;
+    case "mouseMove":
+      await browser.mouseMove(command);
+      return;
+    case "mouseUp":
+      await browser.mouseUp(command);
+      return;
+    case "clickAt":
+      await browser.clickAt(command);
+      return;
     case "waitForNavigation":
       await browser.waitForNavigation(command.options);
       return;
@@ -276,6 +651,9 @@ export async function executeCommand(
     case "dumpNetworkLogs":
       await browser.dumpNetworkLogs(command);
       return;
+    case "dumpHar":
+      await browser.dumpHar(command);
+      return;
     case "clearConsoleLogs":
       browser.clearConsoleLogs();
       return;
@@ -291,6 +669,15 @@ export async function executeCommand(
     case "resize":
       await browser.resize(command.width, command.height);
       return;
+    case "newTab":
+      await browser.newTab(command.url, command.options);
+      return;
+    case "switchTab":
+      await browser.switchTab(command.tab);
+      return;
+    case "closeTab":
+      await browser.closeTab(command.tab);
+      return;
     // Commands that return data
     case "getState":
       return browser.getState(command.options);
@@ -300,8 +687,33 @@ export async function executeCommand(
       return browser.getConsoleLogs();
     case "getNetworkLogs":
       return browser.getNetworkLogs();
+    case "getHar":
+      return browser.getHar(command);
+    case "getNetworkEvent":
+      return browser.getNetworkEvent(command.id);
+    case "inspect":
+      return browser.inspect(command);
+    case "downloads":
+      return browser.getDownloads(command);
+    case "route": {
+      const { type: _type, ...rule } = command;
+      return browser.addRoute(rule);
+    }
+    case "unroute":
+      return browser.removeRoutes({ id: command.id, url: command.url });
     case "saveStorageState":
       return browser.saveStorageState(command.path);
+    case "assert":
+      return browser.assert(command.expect);
+    case "dialog":
+      return browser.respondToDialog({
+        accept: command.action === "accept",
+        promptText: command.promptText,
+      });
+    case "dialogPolicy":
+      return command.policy
+        ? browser.setDialogPolicy(command.policy)
+        : browser.getDialogPolicy();
   }
 }
 
@@ -312,27 +724,167 @@ export interface ActionResult {
   action: StepAction;
   result?: unknown;
   error?: string;
+  /** Cause and suggested next step, when the failure was recognized */
+  errorDetail?: ActionErrorDetail;
+  /** Assertion outcome (assert actions only) */
+  passed?: boolean;
+  expected?: string;
+  actual?: string;
+  /** Set when the action's ref had gone stale */
+  staleRef?: StaleRefReport;
+  /** How long the page took to settle afterwards (settle only) */
+  settle?: SettleReport;
+  /** What the action changed: navigation, requests, console errors, elements */
+  effects?: ActionEffects;
+}
+
+export interface StaleRefReport {
+  ref: string;
+  /** The element the ref pointed at */
+  expected: string;
+  /** What the ref's selectors found instead (omitted if nothing) */
+  actual?: string;
+  /** Ref the element was re-matched to (retryStale only) */
+  retriedWith?: string;
+}
+
+function toStaleRefReport(error: StaleRefError): StaleRefReport {
+  return {
+    ref: error.ref,
+    expected: describeFingerprint(error.expected.fingerprint),
+    actual: error.actual ? describeFingerprint(error.actual) : undefined,
+  };
+}
+
+/**
+ * Re-snapshot, re-match a stale ref's element, and run the action once more
+ */
+async function retryStaleAction(
+  browser: AgentBrowser,
+  action: StepAction,
+  error: StaleRefError,
+): Promise<ActionResult> {
+  const report = toStaleRefReport(error);
+  let ref: string | undefined;
+  try {
+    ref = await browser.rebindStaleRef(error);
+  } catch (rebindError) {
+    return { action, ...toErrorOutcome(rebindError), staleRef: report };
+  }
+  if (!ref) {
+    return {
+      action,
+      error: `${error.message} No matching element after re-snapshot.`,
+      staleRef: report,
+    };
+  }
+  report.retriedWith = ref;
+  const retried =
+    action.type === "drag" && action.to.ref === error.ref
+      ? { ...action, to: { ...action.to, ref, index: undefined } }
+      : ({ ...action, ref, index: undefined } as StepAction);
+  try {
+    const result = await executeCommand(browser, retried);
+    return { action, result: result ?? undefined, staleRef: report };
+  } catch (retryError) {
+    return { action, ...toErrorOutcome(retryError), staleRef: report };
+  }
+}
+
+function toErrorOutcome(
+  error: unknown,
+): Pick<ActionResult, "error" | "errorDetail"> {
+  if (error instanceof ActionError) {
+    return { error: error.message, errorDetail: error.detail };
+  }
+  return { error: error instanceof Error ? error.message : String(error) };
 }
 
 /**
  * Execute multiple actions sequentially
+ * Failed assertions are recorded like errors and halt only when haltOnError is set.
+ * With retryStale, an action whose ref went stale is retried once against
+ * the re-matched element. With settle, each successful action is followed by
+ * a wait for the requests, navigation, and DOM changes it caused.
+ * Each action that runs reports its effects, including the ones that failed.
  */
 export async function executeActions(
   browser: AgentBrowser,
   actions: StepAction[],
-  options: { haltOnError?: boolean } = {},
+  options: {
+    haltOnError?: boolean;
+    retryStale?: boolean;
+    settle?: SettleSetting;
+  } = {},
 ): Promise<ActionResult[]> {
-  const { haltOnError = true } = options;
+  const { haltOnError = true, retryStale = false } = options;
+  const settleOptions = resolveSettleOptions(options.settle);
   const results: ActionResult[] = [];
 
   for (const action of actions) {
+    let recorder: EffectsRecorder | null = null;
+    let tracker: SettleTracker | null = null;
     try {
+      if (action.type === "assert") {
+        browser.assertNoPendingDialog();
+        const outcome = await browser.withTraceGroup(
+          describeCommand(action),
+          () => browser.assert(action.expect),
+        );
+        results.push({
+          action,
+          passed: outcome.matched,
+          expected: outcome.expected,
+          actual: outcome.actual,
+          error: outcome.matched
+            ? undefined
+            : `Assertion failed: expected ${outcome.expected}`,
+        });
+        if (!outcome.matched && haltOnError) {
+          break;
+        }
+        continue;
+      }
+      recorder = await browser.startEffects();
+      if (settleOptions) {
+        tracker = await browser.startSettle();
+      }
       const result = await executeCommand(browser, action);
-      results.push({ action, result: result ?? undefined });
+      const settle = settleOptions
+        ? await tracker?.wait(settleOptions)
+        : undefined;
+      const effects = await recorder.finish();
+      results.push({ action, result: result ?? undefined, settle, effects });
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      results.push({ action, error: message });
-      if (haltOnError) {
+      await tracker?.dispose();
+      let outcome: ActionResult;
+      if (error instanceof StaleRefError && retryStale) {
+        // Still recording, so the effects are the retry's
+        const retryTracker = settleOptions ? await browser.startSettle() : null;
+        outcome = await retryStaleAction(browser, action, error);
+        if (retryTracker && settleOptions && outcome.error == null) {
+          outcome.settle = await retryTracker.wait(settleOptions);
+        } else {
+          await retryTracker?.dispose();
+        }
+        outcome.effects = await recorder?.finish();
+      } else if (error instanceof StaleRefError) {
+        // The action never ran against the page
+        await recorder?.dispose();
+        outcome = {
+          action,
+          error: error.message,
+          staleRef: toStaleRefReport(error),
+        };
+      } else {
+        outcome = {
+          action,
+          ...toErrorOutcome(error),
+          effects: await recorder?.finish(),
+        };
+      }
+      results.push(outcome);
+      if (outcome.error && haltOnError) {
         break;
       }
     }
@@ -349,18 +901,13 @@ export async function executeWait(
   condition: WaitCondition,
   options: { timeoutMs?: number; signal?: AbortSignal } = {},
 ): Promise<void> {
-  const { selector, text, url, notSelector, notText } = condition;
-
-  if (!selector && !text && !url && !notSelector && !notText) {
+  if (isEmptyCondition(condition)) {
     throw new Error("Wait condition required");
   }
+  browser.assertNoPendingDialog();
 
   await browser.waitFor({
-    selector,
-    text,
-    url,
-    notSelector,
-    notText,
+    ...condition,
     timeoutMs: options.timeoutMs,
     signal: options.signal,
   });
@@ -376,10 +923,19 @@ export async function executeWait(
 export function formatStepText(params: {
   results: ActionResult[];
   stateText?: string;
+  diffText?: string;
 }): string {
   const lines: string[] = [];
   lines.push("Step results:");
   for (const result of params.results) {
+    if (result.passed != null) {
+      const status = result.passed ? "pass" : "fail";
+      lines.push(`- ${status} assert ${result.expected}`);
+      if (!result.passed && result.actual) {
+        lines.push(`  actual: ${result.actual}`);
+      }
+      continue;
+    }
     const hasError = result.error != null;
     const status = hasError ? "error" : "ok";
     const action = JSON.stringify(result.action);
@@ -387,6 +943,18 @@ export function formatStepText(params: {
     if (hasError) {
       lines.push(`  ${result.error}`);
     }
+    if (result.staleRef?.retriedWith) {
+      lines.push(
+        `  ref ${result.staleRef.ref} was stale; retried as ${result.staleRef.retriedWith}`,
+      );
+    }
+    if (result.settle) {
+      lines.push(`  ${describeSettle(result.settle)}`);
+    }
+    const effects = result.effects ? describeEffects(result.effects) : "";
+    if (effects !== "") {
+      lines.push(`  -> ${effects}`);
+    }
   }
 
   if (params.stateText) {
@@ -395,6 +963,12 @@ export function formatStepText(params: {
     lines.push(params.stateText);
   }
 
+  if (params.diffText) {
+    lines.push("");
+    lines.push("Changes since last state:");
+    lines.push(params.diffText);
+  }
+
   return lines.join("\n");
 }
 
@@ -404,33 +978,133 @@ export function formatStepText(params: {
 export function formatWaitText(params: {
   condition: WaitCondition;
   stateText?: string;
+  diffText?: string;
 }): string {
   const lines: string[] = [];
-  const conditions: string[] = [];
-  if (params.condition.selector) {
-    conditions.push(`selector=${params.condition.selector}`);
+  const description = describeCondition(params.condition);
+
+  lines.push(`Wait: ok${description ? ` (${description})` : ""}`);
+
+  if (params.stateText) {
+    lines.push("");
+    lines.push("State:");
+    lines.push(params.stateText);
+  }
+
+  if (params.diffText) {
+    lines.push("");
+    lines.push("Changes since last state:");
+    lines.push(params.diffText);
   }
-  if (params.condition.text) {
-    conditions.push(`text=${params.condition.text}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Format an element inspection as human-readable text
+ */
+export function formatInspectText(inspection: ElementInspection): string {
+  const { styles, boundingBox: box } = inspection;
+  const lines: string[] = [
+    inspection.element,
+    `Box: ${Math.round(box.x)},${Math.round(box.y)} ${Math.round(box.width)}x${Math.round(box.height)}${inspection.inViewport ? "" : " (center outside viewport)"}`,
+    `Styles: display=${styles.display} visibility=${styles.visibility} pointer-events=${styles.pointerEvents} opacity=${styles.opacity} z-index=${styles.zIndex} position=${styles.position} cursor=${styles.cursor}`,
+  ];
+
+  if (inspection.coveredBy) {
+    lines.push(`Covered by: ${inspection.coveredBy}`);
   }
-  if (params.condition.url) {
-    conditions.push(`url=${params.condition.url}`);
+
+  const aria = Object.entries(inspection.aria);
+  if (aria.length > 0) {
+    lines.push(`ARIA: ${aria.map(([k, v]) => `${k}="${v}"`).join(" ")}`);
   }
-  if (params.condition.notSelector) {
-    conditions.push(`notSelector=${params.condition.notSelector}`);
+
+  if (inspection.listeners === null) {
+    lines.push("Listeners: (unavailable in this frame)");
+  } else if (inspection.listeners.length === 0) {
+    // Frameworks like React delegate events to the root
+    lines.push("Listeners: (none on the element itself)");
+  } else {
+    lines.push(`Listeners: ${inspection.listeners.join(", ")}`);
   }
-  if (params.condition.notText) {
-    conditions.push(`notText=${params.condition.notText}`);
+
+  if (inspection.parents.length > 0) {
+    lines.push(`Parents: ${inspection.parents.join(" < ")}`);
   }
 
   lines.push(
-    `Wait: ok${conditions.length > 0 ? ` (${conditions.join(", ")})` : ""}`,
+    "",
+    "HTML:",
+    `${inspection.outerHTML}${inspection.outerHTMLTruncated ? "..." : ""}`,
   );
 
-  if (params.stateText) {
-    lines.push("");
-    lines.push("State:");
-    lines.push(params.stateText);
+  return lines.join("\n");
+}
+
+/**
+ * Format downloads with their previews as human-readable text
+ */
+export function formatDownloadsText(downloads: DownloadDetail[]): string {
+  if (downloads.length === 0) {
+    return "No downloads";
+  }
+  const lines: string[] = [];
+  for (const download of downloads) {
+    lines.push(`[${download.id}] ${describeDownload(download)}`);
+    if (download.path) {
+      lines.push(`  ${download.path}`);
+    }
+    if (download.preview) {
+      for (const line of download.preview) {
+        lines.push(`  | ${line}`);
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format one network event's detail as human-readable text
+ */
+export function formatNetworkEventText(detail: NetworkEventDetail): string {
+  const lines: string[] = [];
+  const outcome =
+    detail.type === "failed"
+      ? `failed${detail.failureText ? ` (${detail.failureText})` : ""}`
+      : (detail.status ?? "pending");
+  const duration = detail.durationMs != null ? ` ${detail.durationMs}ms` : "";
+  lines.push(
+    `${detail.id} ${detail.method} ${detail.url} -> ${outcome}${duration}`,
+  );
+
+  const pushHeaders = (label: string, headers?: Record<string, string>) => {
+    if (!headers) {
+      return;
+    }
+    lines.push("", `${label}:`);
+    for (const [name, value] of Object.entries(headers)) {
+      lines.push(`  ${name}: ${value}`);
+    }
+  };
+  const pushBody = (label: string, body?: string, truncated?: boolean) => {
+    if (body == null) {
+      return;
+    }
+    lines.push("", `${label}${truncated ? " (truncated)" : ""}:`);
+    lines.push(body);
+  };
+
+  pushHeaders("Request headers", detail.requestHeaders);
+  pushBody("Request body", detail.requestBody, detail.requestBodyTruncated);
+  pushHeaders("Response headers", detail.responseHeaders);
+  pushBody("Response body", detail.responseBody, detail.responseBodyTruncated);
+
+  if (!detail.requestHeaders && !detail.responseHeaders) {
+    lines.push(
+      "",
+      "(headers and bodies not captured; enable captureNetworkBodies)",
+    );
   }
 
   return lines.join("\n");
@@ -445,18 +1119,41 @@ export async function getStateWithFormat(
     stateOptions?: GetStateOptions;
     includeState?: boolean;
     includeStateText?: boolean;
+    includeDiff?: boolean;
   } = {},
-): Promise<{ state?: BrowserState; stateText?: string }> {
+): Promise<{
+  state?: BrowserState;
+  stateText?: string;
+  diff?: StateDiff;
+  diffText?: string;
+}> {
   const {
     stateOptions,
     includeState = false,
     includeStateText = true,
+    includeDiff = false,
   } = options;
 
-  if (!includeState && !includeStateText) {
+  if (!includeState && !includeStateText && !includeDiff) {
     return {};
   }
 
+  if (includeDiff) {
+    const { state, diff } = await browser.getStateDiff(stateOptions);
+    // Without a previous snapshot there is nothing to diff: send full state text
+    if (!diff) {
+      return {
+        state: includeState ? state : undefined,
+        stateText: formatStateText(state),
+      };
+    }
+    return {
+      state: includeState ? state : undefined,
+      diff,
+      diffText: formatDiffText(diff),
+    };
+  }
+
   const state = await browser.getState(stateOptions);
 
   return {
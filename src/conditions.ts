@@ -0,0 +1,369 @@
+import type { Page } from "playwright";
+import type { ElementRefStore } from "./ref-store";
+import type { NetworkEvent, WaitCondition } from "./types";
+
+/**
+ * Everything a condition may need to inspect besides the page itself
+ */
+export interface ConditionContext {
+  page: Page;
+  refStore: ElementRefStore;
+  /** Console entries logged since the wait started */
+  consoleSince: () => string[];
+  /** Network events captured since the wait started */
+  networkSince: () => NetworkEvent[];
+  /** Whether network capture is running (networkSince is empty otherwise) */
+  networkCaptureEnabled: () => boolean;
+  /** Milliseconds since the last network activity (0 while requests are in flight) */
+  networkIdleForMs: () => number;
+}
+
+/**
+ * Outcome of evaluating a condition once
+ */
+export interface ConditionResult {
+  matched: boolean;
+  /** Human-readable description of what was expected */
+  expected: string;
+  /** What was observed instead (set for leaves and failed composites) */
+  actual?: string;
+  /** The check couldn't be made (e.g. a predicate threw); never inverted by not */
+  error?: boolean;
+}
+
+const LEAF_KEYS = [
+  "selector",
+  "text",
+  "url",
+  "notSelector",
+  "notText",
+  "visible",
+  "enabled",
+  "value",
+  "count",
+  "networkIdleMs",
+  "noConsoleErrors",
+  "noServerErrors",
+] as const;
+
+/**
+ * True if the condition has nothing to check
+ */
+export function isEmptyCondition(condition: WaitCondition): boolean {
+  const hasLeaf = LEAF_KEYS.some((key) => condition[key] != null);
+  return (
+    !hasLeaf &&
+    !condition.all?.length &&
+    !condition.any?.length &&
+    !condition.not
+  );
+}
+
+function isConsoleError(entry: string): boolean {
+  return /^\[error\]/i.test(entry);
+}
+
+/**
+ * Check whether a selector is visible on the page
+ */
+async function isSelectorVisible(page: Page, selector: string) {
+  return await page.evaluate((target) => {
+    try {
+      const el = document.querySelector(target);
+      if (!el) {
+        return false;
+      }
+      const style = window.getComputedStyle(el);
+      const rect = el.getBoundingClientRect();
+      return (
+        style.display !== "none" &&
+        style.visibility !== "hidden" &&
+        (rect.width > 0 || rect.height > 0)
+      );
+    } catch {
+      return false;
+    }
+  }, selector);
+}
+
+async function getBodyText(page: Page): Promise<string> {
+  return await page.evaluate(() => document.body?.innerText ?? "");
+}
+
+function truncate(value: string, max = 80): string {
+  return value.length > max ? `${value.slice(0, max)}...` : value;
+}
+
+/**
+ * Evaluate a single predicate (one key of a condition object)
+ */
+async function evaluateLeaf(
+  ctx: ConditionContext,
+  key: (typeof LEAF_KEYS)[number],
+  condition: WaitCondition,
+): Promise<ConditionResult> {
+  const { page, refStore } = ctx;
+
+  switch (key) {
+    case "selector": {
+      const visible = await isSelectorVisible(page, condition.selector!);
+      return {
+        matched: visible,
+        expected: `selector ${condition.selector} visible`,
+        actual: visible ? "visible" : "not visible",
+      };
+    }
+    case "notSelector": {
+      const visible = await isSelectorVisible(page, condition.notSelector!);
+      return {
+        matched: !visible,
+        expected: `selector ${condition.notSelector} hidden`,
+        actual: visible ? "visible" : "not visible",
+      };
+    }
+    case "text": {
+      const found = (await getBodyText(page)).includes(condition.text!);
+      return {
+        matched: found,
+        expected: `text "${condition.text}" present`,
+        actual: found ? "present" : "not found",
+      };
+    }
+    case "notText": {
+      const found = (await getBodyText(page)).includes(condition.notText!);
+      return {
+        matched: !found,
+        expected: `text "${condition.notText}" absent`,
+        actual: found ? "present" : "not found",
+      };
+    }
+    case "url": {
+      const url = page.url();
+      return {
+        matched: url.includes(condition.url!),
+        expected: `url contains "${condition.url}"`,
+        actual: url,
+      };
+    }
+    case "visible": {
+      const locator = await refStore.resolveLocator(page, {
+        ref: condition.visible,
+      });
+      const visible = await locator.isVisible();
+      return {
+        matched: visible,
+        expected: `${condition.visible} visible`,
+        actual: visible ? "visible" : "hidden",
+      };
+    }
+    case "enabled": {
+      const locator = await refStore.resolveLocator(page, {
+        ref: condition.enabled,
+      });
+      const enabled = await locator.isEnabled();
+      return {
+        matched: enabled,
+        expected: `${condition.enabled} enabled`,
+        actual: enabled ? "enabled" : "disabled",
+      };
+    }
+    case "value": {
+      const { ref, equals } = condition.value!;
+      const locator = await refStore.resolveLocator(page, { ref });
+      const value = await locator.inputValue();
+      return {
+        matched: value === equals,
+        expected: `${ref} value "${equals}"`,
+        actual: `"${truncate(value)}"`,
+      };
+    }
+    case "count": {
+      const { selector, equals } = condition.count!;
+      const count = await page.locator(selector).count();
+      return {
+        matched: count === equals,
+        expected: `${equals} x ${selector}`,
+        actual: `${count}`,
+      };
+    }
+    case "networkIdleMs": {
+      const idleFor = ctx.networkIdleForMs();
+      return {
+        matched: idleFor >= condition.networkIdleMs!,
+        expected: `network idle for ${condition.networkIdleMs}ms`,
+        actual: idleFor === 0 ? "requests in flight" : `idle for ${idleFor}ms`,
+      };
+    }
+    case "noConsoleErrors": {
+      const errors = ctx.consoleSince().filter(isConsoleError);
+      const matched = condition.noConsoleErrors ? errors.length === 0 : true;
+      return {
+        matched,
+        expected: "no console errors",
+        actual:
+          errors.length === 0
+            ? "none"
+            : `${errors.length} error(s), last: ${truncate(errors[errors.length - 1])}`,
+      };
+    }
+    case "noServerErrors": {
+      // Without capture there's nothing to check, which isn't a pass
+      if (condition.noServerErrors && !ctx.networkCaptureEnabled()) {
+        return {
+          matched: false,
+          expected: "no 5xx responses",
+          actual: "network capture disabled",
+          error: true,
+        };
+      }
+      const failures = ctx
+        .networkSince()
+        .filter((event) => event.status != null && event.status >= 500);
+      const matched = condition.noServerErrors ? failures.length === 0 : true;
+      const last = failures[failures.length - 1];
+      return {
+        matched,
+        expected: "no 5xx responses",
+        actual: last
+          ? `${failures.length} response(s), last: ${last.status} ${last.method} ${last.url}`
+          : "none",
+      };
+    }
+  }
+}
+
+function combine(
+  results: ConditionResult[],
+  mode: "all" | "any",
+): ConditionResult {
+  if (results.length === 1) {
+    return results[0];
+  }
+  const expected = results
+    .map((r) => r.expected)
+    .join(mode === "all" ? " AND " : " OR ");
+  const matched =
+    mode === "all"
+      ? results.every((r) => r.matched)
+      : results.some((r) => r.matched);
+  if (matched) {
+    return { matched, expected: `(${expected})` };
+  }
+  const failed = results.filter((r) => !r.matched);
+  const result: ConditionResult = {
+    matched,
+    expected: `(${expected})`,
+    actual: failed
+      .map((r) => (r.actual ? `${r.expected}: ${r.actual}` : r.expected))
+      .join("; "),
+  };
+  if (failed.some((r) => r.error)) {
+    result.error = true;
+  }
+  return result;
+}
+
+/**
+ * Evaluate a condition tree once against the current page
+ * Errors from individual predicates (e.g. an element that can't be resolved)
+ * count as "not matched" so waits keep polling, and are flagged as errors so
+ * a surrounding not fails instead of passing.
+ */
+export async function evaluateCondition(
+  ctx: ConditionContext,
+  condition: WaitCondition,
+): Promise<ConditionResult> {
+  const results: ConditionResult[] = [];
+
+  for (const key of LEAF_KEYS) {
+    if (condition[key] == null) {
+      continue;
+    }
+    try {
+      results.push(await evaluateLeaf(ctx, key, condition));
+    } catch (error) {
+      results.push({
+        matched: false,
+        expected: describeCondition({ [key]: condition[key] }),
+        actual: error instanceof Error ? error.message : String(error),
+        error: true,
+      });
+    }
+  }
+
+  if (condition.all?.length) {
+    const nested = await Promise.all(
+      condition.all.map((child) => evaluateCondition(ctx, child)),
+    );
+    results.push(combine(nested, "all"));
+  }
+
+  if (condition.any?.length) {
+    const nested: ConditionResult[] = [];
+    for (const child of condition.any) {
+      const result = await evaluateCondition(ctx, child);
+      nested.push(result);
+      if (result.matched) {
+        break;
+      }
+    }
+    results.push(combine(nested, "any"));
+  }
+
+  if (condition.not) {
+    const nested = await evaluateCondition(ctx, condition.not);
+    results.push(
+      nested.error
+        ? {
+            matched: false,
+            expected: `NOT ${nested.expected}`,
+            actual: nested.actual,
+            error: true,
+          }
+        : {
+            matched: !nested.matched,
+            expected: `NOT ${nested.expected}`,
+            actual: nested.matched ? "matched" : undefined,
+          },
+    );
+  }
+
+  return combine(results, "all");
+}
+
+/**
+ * Describe a condition tree without evaluating it
+ */
+export function describeCondition(condition: WaitCondition): string {
+  const parts: string[] = [];
+  if (condition.selector) parts.push(`selector=${condition.selector}`);
+  if (condition.text) parts.push(`text=${condition.text}`);
+  if (condition.url) parts.push(`url=${condition.url}`);
+  if (condition.notSelector) {
+    parts.push(`notSelector=${condition.notSelector}`);
+  }
+  if (condition.notText) parts.push(`notText=${condition.notText}`);
+  if (condition.visible) parts.push(`visible=${condition.visible}`);
+  if (condition.enabled) parts.push(`enabled=${condition.enabled}`);
+  if (condition.value) {
+    parts.push(`value(${condition.value.ref})="${condition.value.equals}"`);
+  }
+  if (condition.count) {
+    parts.push(`count(${condition.count.selector})=${condition.count.equals}`);
+  }
+  if (condition.networkIdleMs != null) {
+    parts.push(`networkIdle=${condition.networkIdleMs}ms`);
+  }
+  if (condition.noConsoleErrors) parts.push("noConsoleErrors");
+  if (condition.noServerErrors) parts.push("noServerErrors");
+  if (condition.all?.length) {
+    parts.push(`all(${condition.all.map(describeCondition).join(", ")})`);
+  }
+  if (condition.any?.length) {
+    parts.push(`any(${condition.any.map(describeCondition).join(", ")})`);
+  }
+  if (condition.not) {
+    parts.push(`not(${describeCondition(condition.not)})`);
+  }
+  return parts.join(", ");
+}
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { dialogPolicySchema } from "./dialogs";
+import { routeRuleSchema } from "./mock";
 import type { BrowserCliConfig } from "./types";
 
 const storageStateSchema = z.object({
@@ -41,6 +43,26 @@ export const browserCliConfigSchema = z.looseObject({
   networkLogLimit: z.number().int().optional(),
   storageState: z.union([z.string(), storageStateSchema]).optional(),
   storageStatePath: z.string().optional(),
+  trace: z.boolean().optional(),
+  captureNetworkBodies: z.boolean().optional(),
+  networkBodyLimit: z.number().int().positive().optional(),
+  networkRedact: z
+    .object({
+      headers: z.array(z.string()).optional(),
+      fields: z.array(z.string()).optional(),
+    })
+    .optional(),
+  routes: z.array(routeRuleSchema).optional(),
+  routeFromHar: z
+    .object({
+      path: z.string(),
+      url: z.string().optional(),
+      notFound: z.enum(["abort", "fallback"]).optional(),
+      update: z.boolean().optional(),
+    })
+    .optional(),
+  dialogPolicy: dialogPolicySchema.optional(),
+  downloadsDir: z.string().optional(),
   saveStorageStatePath: z.string().optional(),
   serverHost: z.string().optional(),
   serverPort: z.number().int().optional(),
@@ -14,13 +14,27 @@ import {
   formatStepText,
   formatWaitText,
   getStateOptionsSchema,
+  getStateWithFormat,
   type StepAction,
   stepActionSchema,
   type WaitCondition,
   waitConditionSchema,
 } from "./commands";
+import { dialogPolicySchema } from "./dialogs";
+import {
+  createActStep,
+  createWaitStep,
+  type Flow,
+  FlowRecorder,
+  flowSchema,
+  formatReplayText,
+  replayFlow,
+} from "./flow";
+import { formatDiffText } from "./diff";
 import { createIdGenerator } from "./id";
+import { routeRuleSchema } from "./mock";
 import { saveProfile } from "./profiles";
+import { type SettleSetting, settleSchema } from "./settle";
 import { formatStateText } from "./state";
 import type { StorageState } from "./types";
 
@@ -40,6 +54,26 @@ const browserOptionsSchema = z
     captureNetwork: z.boolean().optional(),
     networkLogLimit: z.number().optional(),
     storageStatePath: z.string().optional(),
+    trace: z.boolean().optional(),
+    captureNetworkBodies: z.boolean().optional(),
+    networkBodyLimit: z.number().optional(),
+    networkRedact: z
+      .object({
+        headers: z.array(z.string()).optional(),
+        fields: z.array(z.string()).optional(),
+      })
+      .optional(),
+    routes: z.array(routeRuleSchema).optional(),
+    routeFromHar: z
+      .object({
+        path: z.string(),
+        url: z.string().optional(),
+        notFound: z.enum(["abort", "fallback"]).optional(),
+        update: z.boolean().optional(),
+      })
+      .optional(),
+    dialogPolicy: dialogPolicySchema.optional(),
+    downloadsDir: z.string().optional(),
     // Profile to load and save back on close
     profile: z.string().optional(),
     // If true, don't save profile on close (read-only)
@@ -77,8 +111,11 @@ const requestSchema = z.discriminatedUnion("type", [
     sessionId: z.string().optional(),
     actions: z.array(stepActionSchema),
     haltOnError: z.boolean().optional(),
+    retryStale: z.boolean().optional(),
+    settle: settleSchema.optional(),
     includeState: z.boolean().optional(),
     includeStateText: z.boolean().optional(),
+    includeDiff: z.boolean().optional(),
     stateOptions: getStateOptionsSchema.optional(),
   }),
   z.object({
@@ -89,6 +126,7 @@ const requestSchema = z.discriminatedUnion("type", [
     timeoutMs: z.number().optional(),
     includeState: z.boolean().optional(),
     includeStateText: z.boolean().optional(),
+    includeDiff: z.boolean().optional(),
     stateOptions: getStateOptionsSchema.optional(),
   }),
   z.object({
@@ -97,6 +135,20 @@ const requestSchema = z.discriminatedUnion("type", [
     sessionId: z.string().optional(),
     options: getStateOptionsSchema.optional(),
     format: z.enum(["json", "text"]).optional(),
+    diff: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("record"),
+    id: z.string(),
+    sessionId: z.string().optional(),
+    action: z.enum(["start", "stop"]),
+    path: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("replay"),
+    id: z.string(),
+    sessionId: z.string().optional(),
+    flow: flowSchema,
   }),
   z.object({
     type: z.literal("ping"),
@@ -131,6 +183,8 @@ type DaemonSession = {
   profile?: string;
   // If true, don't save profile on close
   noSave?: boolean;
+  // Active flow recording (record start/stop)
+  recorder?: FlowRecorder;
 };
 
 // ============================================================================
@@ -540,29 +594,42 @@ async function handleRequest(
         session.busy = true;
         session.lastUsed = Date.now();
         try {
+          // Capture targets before running: actions may invalidate refs
+          const refStore = session.browser.getRefStore();
+          const pendingSteps = session.recorder
+            ? request.actions.map((action) => createActStep(refStore, action))
+            : [];
+
           const results = await executeActions(
             session.browser,
             request.actions,
             {
               haltOnError: request.haltOnError ?? true,
+              retryStale: request.retryStale,
+              settle: request.settle,
             },
           );
 
-          let state: unknown;
-          let stateText: string | undefined;
-
-          if (request.includeState || request.includeStateText !== false) {
-            const currentState = await session.browser.getState(
-              request.stateOptions,
-            );
-            if (request.includeState) {
-              state = currentState;
-            }
-            if (request.includeStateText !== false) {
-              stateText = formatStateText(currentState);
+          if (session.recorder) {
+            // Keep actions that ran, plus assertions whether or not they passed
+            for (const [i, result] of results.entries()) {
+              if (result.error == null || result.passed != null) {
+                session.recorder.add(pendingSteps[i]);
+              }
             }
+            await session.recorder.save();
           }
 
+          const { state, stateText, diff, diffText } = await getStateWithFormat(
+            session.browser,
+            {
+              stateOptions: request.stateOptions,
+              includeState: request.includeState,
+              includeStateText: request.includeStateText !== false,
+              includeDiff: request.includeDiff,
+            },
+          );
+
           const hasError = results.some((r) => r.error != null);
 
           return {
@@ -572,7 +639,8 @@ async function handleRequest(
               results,
               state,
               stateText,
-              text: formatStepText({ results, stateText }),
+              diff,
+              text: formatStepText({ results, stateText, diffText }),
               error: hasError ? "One or more actions failed" : undefined,
             },
           };
@@ -587,32 +655,45 @@ async function handleRequest(
         session.busy = true;
         session.lastUsed = Date.now();
         try {
+          const pendingStep = session.recorder
+            ? createWaitStep(
+                session.browser.getRefStore(),
+                request.condition,
+                request.timeoutMs,
+              )
+            : undefined;
+
           await executeWait(session.browser, request.condition, {
             timeoutMs: request.timeoutMs,
           });
 
-          let state: unknown;
-          let stateText: string | undefined;
-
-          if (request.includeState || request.includeStateText !== false) {
-            const currentState = await session.browser.getState(
-              request.stateOptions,
-            );
-            if (request.includeState) {
-              state = currentState;
-            }
-            if (request.includeStateText !== false) {
-              stateText = formatStateText(currentState);
-            }
+          if (session.recorder && pendingStep) {
+            session.recorder.add(pendingStep);
+            await session.recorder.save();
           }
 
+          const { state, stateText, diff, diffText } = await getStateWithFormat(
+            session.browser,
+            {
+              stateOptions: request.stateOptions,
+              includeState: request.includeState,
+              includeStateText: request.includeStateText !== false,
+              includeDiff: request.includeDiff,
+            },
+          );
+
           return {
             id,
             success: true,
             data: {
               state,
               stateText,
-              text: formatWaitText({ condition: request.condition, stateText }),
+              diff,
+              text: formatWaitText({
+                condition: request.condition,
+                stateText,
+                diffText,
+              }),
             },
           };
         } finally {
@@ -621,14 +702,86 @@ async function handleRequest(
         }
       }
 
+      case "record": {
+        const session = getOrDefaultSession(request.sessionId);
+
+        if (request.action === "stop") {
+          const recorder = session.recorder;
+          if (!recorder) {
+            throw new Error("Session is not recording");
+          }
+          await recorder.save();
+          session.recorder = undefined;
+          return {
+            id,
+            success: true,
+            data: { path: recorder.path, steps: recorder.getStepCount() },
+          };
+        }
+
+        if (!request.path) {
+          throw new Error("record start requires a path");
+        }
+        if (session.recorder) {
+          throw new Error(
+            `Session is already recording to ${session.recorder.path}`,
+          );
+        }
+
+        const recorder = new FlowRecorder(request.path);
+        // Start from the current page so the flow can be replayed standalone
+        const url = session.browser.getUrl();
+        if (url.startsWith("http") || url.startsWith("file:")) {
+          recorder.add({ kind: "act", action: { type: "navigate", url } });
+        }
+        await recorder.save();
+        session.recorder = recorder;
+        return { id, success: true, data: { path: recorder.path } };
+      }
+
+      case "replay": {
+        const session = getOrDefaultSession(request.sessionId);
+        session.busy = true;
+        session.lastUsed = Date.now();
+        try {
+          const report = await replayFlow(session.browser, request.flow);
+          return {
+            id,
+            success: true,
+            data: { report, text: formatReplayText(report) },
+          };
+        } finally {
+          session.busy = false;
+          session.lastUsed = Date.now();
+        }
+      }
+
       case "state": {
         const session = getOrDefaultSession(request.sessionId);
         session.busy = true;
         session.lastUsed = Date.now();
         try {
-          const currentState = await session.browser.getState(request.options);
           const format = request.format ?? "text";
 
+          if (request.diff) {
+            const { state: currentState, diff } =
+              await session.browser.getStateDiff(request.options);
+            if (format === "text") {
+              return {
+                id,
+                success: true,
+                data: {
+                  text: diff
+                    ? formatDiffText(diff)
+                    : formatStateText(currentState),
+                },
+              };
+            }
+            return { id, success: true, data: { state: currentState, diff } };
+          }
+
+          const currentState = await session.browser.getState(request.options);
+
           if (format === "text") {
             return {
               id,
@@ -666,7 +819,10 @@ export class DaemonClient {
     this.sessionId = sessionId;
   }
 
-  private async send(request: DaemonRequest): Promise<DaemonResponse> {
+  private async send(
+    request: DaemonRequest,
+    timeoutMs = 60000,
+  ): Promise<DaemonResponse> {
     return new Promise((resolve, reject) => {
       const socket = net.createConnection(this.socketPath);
       let buffer = "";
@@ -698,7 +854,7 @@ export class DaemonClient {
         reject(new Error("Connection timeout"));
       });
 
-      socket.setTimeout(60000);
+      socket.setTimeout(timeoutMs);
     });
   }
 
@@ -765,8 +921,11 @@ export class DaemonClient {
     options: {
       sessionId?: string;
       haltOnError?: boolean;
+      retryStale?: boolean;
+      settle?: SettleSetting;
       includeState?: boolean;
       includeStateText?: boolean;
+      includeDiff?: boolean;
       stateOptions?: z.infer<typeof getStateOptionsSchema>;
     } = {},
   ): Promise<DaemonResponse> {
@@ -787,6 +946,7 @@ export class DaemonClient {
       timeoutMs?: number;
       includeState?: boolean;
       includeStateText?: boolean;
+      includeDiff?: boolean;
       stateOptions?: z.infer<typeof getStateOptionsSchema>;
     } = {},
   ): Promise<DaemonResponse> {
@@ -804,6 +964,7 @@ export class DaemonClient {
     options: {
       sessionId?: string;
       format?: "json" | "text";
+      diff?: boolean;
       stateOptions?: z.infer<typeof getStateOptionsSchema>;
     } = {},
   ): Promise<DaemonResponse> {
@@ -813,9 +974,39 @@ export class DaemonClient {
       sessionId: options.sessionId ?? this.sessionId,
       options: options.stateOptions,
       format: options.format,
+      diff: options.diff,
+    });
+  }
+
+  async record(
+    action: "start" | "stop",
+    options: { sessionId?: string; path?: string } = {},
+  ): Promise<DaemonResponse> {
+    return this.send({
+      type: "record",
+      id: `record-${Date.now()}`,
+      sessionId: options.sessionId ?? this.sessionId,
+      action,
+      path: options.path,
     });
   }
 
+  async replay(
+    flow: Flow,
+    options: { sessionId?: string } = {},
+  ): Promise<DaemonResponse> {
+    // A flow may chain several waits, so allow well beyond one command's timeout
+    return this.send(
+      {
+        type: "replay",
+        id: `replay-${Date.now()}`,
+        sessionId: options.sessionId ?? this.sessionId,
+        flow,
+      },
+      10 * 60 * 1000,
+    );
+  }
+
   async shutdown(): Promise<DaemonResponse> {
     return this.send({ type: "shutdown", id: "shutdown" });
   }
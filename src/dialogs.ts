@@ -0,0 +1,182 @@
+import type { Dialog, Page } from "playwright";
+import { z } from "zod";
+
+// ============================================================================
+// Dialog Policy Schema
+// ============================================================================
+
+/**
+ * How alert/confirm/prompt/beforeunload dialogs are answered
+ * "manual" leaves them open until a dialog action answers them.
+ * beforeunload prompts are accepted under "dismiss" too: dismissing one
+ * cancels the navigation that triggered it.
+ */
+export const dialogPolicySchema = z.object({
+  action: z.enum(["accept", "dismiss", "manual"]),
+  /** Text to answer prompt() dialogs with when accepting */
+  promptText: z.string().optional(),
+});
+
+export type DialogPolicy = z.infer<typeof dialogPolicySchema>;
+
+/**
+ * A dialog the page opened, as reported in state
+ */
+export interface DialogInfo {
+  id: string;
+  type: "alert" | "confirm" | "prompt" | "beforeunload";
+  message: string;
+  /** Default value of a prompt() */
+  defaultValue?: string;
+  /** URL of the page that opened it */
+  url: string;
+  timestamp: number;
+  /** How it was answered (omitted while pending) */
+  outcome?: "accepted" | "dismissed";
+  /** Text a prompt() was answered with */
+  promptText?: string;
+}
+
+// ============================================================================
+// Dialog Tracker
+// ============================================================================
+
+interface PendingDialog {
+  page: Page;
+  dialog: Dialog;
+  info: DialogInfo;
+}
+
+/**
+ * Describe a dialog in a few words, e.g. confirm "Delete this item?"
+ */
+export function describeDialog(info: DialogInfo): string {
+  return `${info.type} ${JSON.stringify(info.message)}`;
+}
+
+/**
+ * Answers dialogs according to the session policy and keeps a record of them
+ * Pending dialogs block the page: evaluating anything in it hangs until the
+ * dialog is answered.
+ */
+export class DialogTracker {
+  private policy: DialogPolicy;
+  private pending: PendingDialog[] = [];
+  private recent: DialogInfo[] = [];
+  private nextId = 0;
+
+  constructor(policy: DialogPolicy = { action: "dismiss" }) {
+    this.policy = dialogPolicySchema.parse(policy);
+  }
+
+  /**
+   * Start handling dialogs for a page (once per page)
+   */
+  attach(page: Page): void {
+    page.on("dialog", (dialog) => {
+      this.handle(page, dialog).catch(() => {
+        // The page closed before the dialog was answered
+      });
+    });
+    page.on("close", () => {
+      this.pending = this.pending.filter((entry) => entry.page !== page);
+    });
+  }
+
+  private async handle(page: Page, dialog: Dialog): Promise<void> {
+    const info: DialogInfo = {
+      id: `dialog-${this.nextId}`,
+      type: dialog.type() as DialogInfo["type"],
+      message: dialog.message(),
+      defaultValue:
+        dialog.type() === "prompt" ? dialog.defaultValue() : undefined,
+      url: page.url(),
+      timestamp: Date.now(),
+    };
+    this.nextId += 1;
+
+    const { action, promptText } = this.policy;
+    if (action === "manual") {
+      this.pending.push({ page, dialog, info });
+      return;
+    }
+    const accept = action === "accept" || info.type === "beforeunload";
+    await this.answer({ page, dialog, info }, accept, promptText);
+  }
+
+  private async answer(
+    entry: PendingDialog,
+    accept: boolean,
+    promptText?: string,
+  ): Promise<DialogInfo> {
+    const { dialog, info } = entry;
+    const text = info.type === "prompt" && accept ? promptText : undefined;
+    if (accept) {
+      await dialog.accept(text);
+    } else {
+      await dialog.dismiss();
+    }
+    info.outcome = accept ? "accepted" : "dismissed";
+    info.promptText = text;
+    this.recent.push(info);
+    return info;
+  }
+
+  /**
+   * Answer the oldest pending dialog on a page
+   */
+  async respond(
+    page: Page,
+    options: { accept: boolean; promptText?: string },
+  ): Promise<DialogInfo> {
+    const index = this.pending.findIndex((entry) => entry.page === page);
+    if (index === -1) {
+      throw new Error("No dialog is open on the active tab");
+    }
+    const [entry] = this.pending.splice(index, 1);
+    return this.answer(entry, options.accept, options.promptText);
+  }
+
+  hasPending(page: Page): boolean {
+    return this.pending.some((entry) => entry.page === page);
+  }
+
+  /**
+   * Dialogs waiting for an answer on a page
+   */
+  getPending(page: Page): DialogInfo[] {
+    return this.pending
+      .filter((entry) => entry.page === page)
+      .map((entry) => ({ ...entry.info }));
+  }
+
+  /**
+   * Dialogs answered since the last call, oldest first
+   */
+  takeRecent(): DialogInfo[] {
+    const recent = this.recent;
+    this.recent = [];
+    return recent;
+  }
+
+  getPolicy(): DialogPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Change the policy for dialogs opened from now on
+   */
+  setPolicy(policy: DialogPolicy): DialogPolicy {
+    this.policy = dialogPolicySchema.parse(policy);
+    return this.getPolicy();
+  }
+
+  /**
+   * Forget all dialogs (the context is going away)
+   */
+  reset(): void {
+    this.pending = [];
+    this.recent = [];
+    this.nextId = 0;
+  }
+}
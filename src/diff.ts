@@ -0,0 +1,330 @@
+import { type DialogInfo, describeDialog } from "./dialogs";
+import { type DownloadInfo, describeDownload } from "./downloads";
+import { formatElementLine, formatNetworkEventLine } from "./state";
+import type { BrowserState, InteractiveElement, NetworkEvent } from "./types";
+
+/**
+ * An element present in both snapshots whose state changed
+ */
+export interface ElementChange {
+  /** Element as it appears now (use its ref for actions) */
+  element: InteractiveElement;
+  /** Human-readable changes, e.g. 'value "" -> "hello"' */
+  changes: string[];
+}
+
+/**
+ * A contiguous region of the accessibility tree that changed
+ */
+export interface TreeHunk {
+  /** 1-based line in the new tree where the hunk starts */
+  line: number;
+  removed: string[];
+  added: string[];
+}
+
+/**
+ * Changes between two state snapshots
+ */
+export interface StateDiff {
+  url?: { from: string; to: string };
+  title?: { from: string; to: string };
+  tabs?: { from: number; to: number };
+  added: InteractiveElement[];
+  removed: InteractiveElement[];
+  changed: ElementChange[];
+  newErrors: { console: string[]; network: NetworkEvent[] };
+  treeChanges: TreeHunk[];
+  /** Dialogs answered since the previous snapshot */
+  dialogs: DialogInfo[];
+  /** Downloads that started or changed status since the previous snapshot */
+  downloads: DownloadInfo[];
+  /** True when nothing above changed */
+  unchanged: boolean;
+}
+
+// Beyond this many LCS cells, fall back to a cheaper set-based tree diff
+const MAX_TREE_DIFF_CELLS = 2_000_000;
+
+function describeElementChanges(
+  prev: InteractiveElement,
+  next: InteractiveElement,
+): string[] {
+  const changes: string[] = [];
+  // Unlabeled inputs use their value as name, which the value change covers
+  if (prev.name !== next.name && prev.name !== prev.attributes.value) {
+    changes.push(`name "${prev.name}" -> "${next.name}"`);
+  }
+  if (prev.enabled !== next.enabled) {
+    changes.push(next.enabled ? "enabled" : "disabled");
+  }
+  if (prev.visible !== next.visible) {
+    changes.push(next.visible ? "shown" : "hidden");
+  }
+  if (prev.obscuredBy !== next.obscuredBy) {
+    changes.push(
+      next.obscuredBy ? `obscured by ${next.obscuredBy}` : "no longer obscured",
+    );
+  }
+  if (prev.attributes.value !== next.attributes.value) {
+    changes.push(
+      `value "${prev.attributes.value ?? ""}" -> "${next.attributes.value ?? ""}"`,
+    );
+  }
+  if (prev.attributes.checked !== next.attributes.checked) {
+    changes.push(next.attributes.checked ? "checked" : "unchecked");
+  }
+  if (prev.text !== next.text && prev.name === next.name) {
+    changes.push(`text "${prev.text}" -> "${next.text}"`);
+  }
+  return changes;
+}
+
+/**
+ * Match elements by ref, which carries over between snapshots while the
+ * element stays on the page
+ */
+function diffElements(
+  prev: InteractiveElement[],
+  next: InteractiveElement[],
+): Pick<StateDiff, "added" | "removed" | "changed"> {
+  const previous = new Map(prev.map((el) => [el.ref, el]));
+
+  const added: InteractiveElement[] = [];
+  const changed: ElementChange[] = [];
+  for (const el of next) {
+    const match = previous.get(el.ref);
+    if (!match) {
+      added.push(el);
+      continue;
+    }
+    previous.delete(el.ref);
+    const changes = describeElementChanges(match, el);
+    if (changes.length > 0) {
+      changed.push({ element: el, changes });
+    }
+  }
+
+  const removed = Array.from(previous.values());
+  return { added, removed, changed };
+}
+
+/**
+ * Entries in next that weren't in prev (counting duplicates)
+ */
+function newEntries(prev: string[], next: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const entry of prev) {
+    counts.set(entry, (counts.get(entry) ?? 0) + 1);
+  }
+  return next.filter((entry) => {
+    const count = counts.get(entry) ?? 0;
+    if (count > 0) {
+      counts.set(entry, count - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Line diff of two trees via longest common subsequence
+ */
+function diffTree(prevTree: string, nextTree: string): TreeHunk[] {
+  if (prevTree === nextTree) {
+    return [];
+  }
+  const a = prevTree ? prevTree.split("\n") : [];
+  const b = nextTree ? nextTree.split("\n") : [];
+
+  if (a.length * b.length > MAX_TREE_DIFF_CELLS) {
+    const removed = newEntries(b, a);
+    const added = newEntries(a, b);
+    return removed.length || added.length ? [{ line: 1, removed, added }] : [];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: TreeHunk[] = [];
+  let current: TreeHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { line: j + 1, removed: [], added: [] };
+      hunks.push(current);
+    }
+    if (
+      j < b.length &&
+      (i >= a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])
+    ) {
+      current.added.push(b[j]);
+      j++;
+    } else {
+      current.removed.push(a[i]);
+      i++;
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Compute what changed between two snapshots
+ * The tree is only compared when both snapshots include it.
+ */
+export function diffStates(prev: BrowserState, next: BrowserState): StateDiff {
+  const { added, removed, changed } = diffElements(
+    prev.elements,
+    next.elements,
+  );
+  const prevNetworkIds = new Set(
+    (prev.errors?.network ?? []).map((event) => event.id),
+  );
+  const newErrors = {
+    console: newEntries(prev.errors?.console ?? [], next.errors?.console ?? []),
+    network: (next.errors?.network ?? []).filter(
+      (event) => !prevNetworkIds.has(event.id),
+    ),
+  };
+  const treeChanges =
+    prev.accessibilityTree && next.accessibilityTree
+      ? diffTree(prev.accessibilityTree, next.accessibilityTree)
+      : [];
+  const dialogs = (next.dialogs ?? []).filter((dialog) => dialog.outcome);
+  const prevDownloads = new Map(
+    (prev.downloads ?? []).map((download) => [download.id, download.status]),
+  );
+  const downloads = (next.downloads ?? []).filter(
+    (download) => prevDownloads.get(download.id) !== download.status,
+  );
+
+  const diff: StateDiff = {
+    url: prev.url !== next.url ? { from: prev.url, to: next.url } : undefined,
+    title:
+      prev.title !== next.title
+        ? { from: prev.title, to: next.title }
+        : undefined,
+    tabs:
+      prev.tabs.length !== next.tabs.length
+        ? { from: prev.tabs.length, to: next.tabs.length }
+        : undefined,
+    added,
+    removed,
+    changed,
+    newErrors,
+    treeChanges,
+    dialogs,
+    downloads,
+    unchanged: false,
+  };
+  diff.unchanged =
+    !diff.url &&
+    !diff.title &&
+    !diff.tabs &&
+    added.length === 0 &&
+    removed.length === 0 &&
+    changed.length === 0 &&
+    newErrors.console.length === 0 &&
+    newErrors.network.length === 0 &&
+    treeChanges.length === 0 &&
+    dialogs.length === 0 &&
+    downloads.length === 0;
+  return diff;
+}
+
+/**
+ * Format a state diff as human-readable text
+ */
+export function formatDiffText(diff: StateDiff, maxTreeLines = 40): string {
+  if (diff.unchanged) {
+    return "No changes since last state";
+  }
+
+  const lines: string[] = [];
+  if (diff.url) {
+    lines.push(`URL: ${diff.url.from} -> ${diff.url.to}`);
+  }
+  if (diff.title) {
+    lines.push(`Title: "${diff.title.from}" -> "${diff.title.to}"`);
+  }
+  if (diff.tabs) {
+    lines.push(`Tabs: ${diff.tabs.from} -> ${diff.tabs.to}`);
+  }
+
+  for (const dialog of diff.dialogs) {
+    lines.push(`Dialog: ${describeDialog(dialog)} -> ${dialog.outcome}`);
+  }
+  for (const download of diff.downloads) {
+    lines.push(`Download: [${download.id}] ${describeDownload(download)}`);
+  }
+
+  if (diff.added.length > 0) {
+    lines.push(`Added elements (${diff.added.length}):`);
+    for (const el of diff.added) {
+      lines.push(`  + ${formatElementLine(el)}`);
+    }
+  }
+  if (diff.removed.length > 0) {
+    lines.push(`Removed elements (${diff.removed.length}):`);
+    for (const el of diff.removed) {
+      lines.push(`  - ${el.role} "${el.name || el.text}" (was ${el.ref})`);
+    }
+  }
+  if (diff.changed.length > 0) {
+    lines.push(`Changed elements (${diff.changed.length}):`);
+    for (const { element, changes } of diff.changed) {
+      lines.push(
+        `  ~ ref=${element.ref} ${element.role} "${element.name || element.text}": ${changes.join(", ")}`,
+      );
+    }
+  }
+
+  const { console: consoleErrors, network } = diff.newErrors;
+  if (consoleErrors.length > 0 || network.length > 0) {
+    lines.push("New errors:");
+    for (const entry of consoleErrors) {
+      lines.push(`  - ${entry}`);
+    }
+    for (const event of network) {
+      lines.push(`  - ${formatNetworkEventLine(event)}`);
+    }
+  }
+
+  if (diff.treeChanges.length > 0) {
+    lines.push("Tree changes:");
+    let budget = maxTreeLines;
+    for (const hunk of diff.treeChanges) {
+      if (budget <= 0) {
+        break;
+      }
+      lines.push(`  @@ line ${hunk.line} @@`);
+      const hunkLines = [
+        ...hunk.removed.map((line) => `  - ${line}`),
+        ...hunk.added.map((line) => `  + ${line}`),
+      ];
+      lines.push(...hunkLines.slice(0, budget));
+      if (hunkLines.length > budget) {
+        lines.push("  ...");
+      }
+      budget -= hunkLines.length;
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,201 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Download, Page } from "playwright";
+
+/**
+ * A file the page downloaded, as reported in state
+ */
+export interface DownloadInfo {
+  id: string;
+  /** Filename the server suggested */
+  suggestedFilename: string;
+  url: string;
+  status: "in_progress" | "completed" | "failed" | "canceled";
+  /** Where the file was saved (completed downloads only) */
+  path?: string;
+  /** Size in bytes (completed downloads only) */
+  size?: number;
+  /** Failure reason (failed downloads only) */
+  error?: string;
+  timestamp: number;
+}
+
+/**
+ * Download with a preview of its contents (downloads command)
+ */
+export interface DownloadDetail extends DownloadInfo {
+  /** First lines of the file, for text formats */
+  preview?: string[];
+}
+
+const TEXT_EXTENSIONS = new Set([
+  ".csv",
+  ".tsv",
+  ".txt",
+  ".json",
+  ".ndjson",
+  ".jsonl",
+  ".xml",
+  ".html",
+  ".htm",
+  ".md",
+  ".log",
+  ".yaml",
+  ".yml",
+  ".ics",
+  ".vcf",
+]);
+
+// Enough for a few lines of a wide CSV without reading the whole file
+const PREVIEW_BYTES = 64 * 1024;
+
+/**
+ * Format a byte count, e.g. 2.1 KB
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Describe a download in one line, e.g. report.csv 2.1 KB completed
+ */
+export function describeDownload(info: DownloadInfo): string {
+  const size = info.size != null ? ` ${formatBytes(info.size)}` : "";
+  const error = info.error ? ` (${info.error})` : "";
+  return `${info.suggestedFilename}${size} ${info.status}${error}`;
+}
+
+/**
+ * Saves every download into one directory per session and keeps a record
+ * of them. Each download gets its own subdirectory so the suggested
+ * filename is kept even when the same file is downloaded twice.
+ */
+export class DownloadTracker {
+  private downloads: DownloadInfo[] = [];
+  private nextId = 0;
+  private dir: string | null;
+
+  constructor(dir?: string) {
+    this.dir = dir ?? null;
+  }
+
+  /**
+   * Directory downloads are saved into (created on first use)
+   */
+  getDirectory(): string {
+    if (!this.dir) {
+      this.dir = fs.mkdtempSync(
+        path.join(os.tmpdir(), "agent-browser-downloads-"),
+      );
+    }
+    return this.dir;
+  }
+
+  /**
+   * Start saving downloads for a page (once per page)
+   */
+  attach(page: Page): void {
+    page.on("download", (download) => {
+      this.save(download).catch(() => {
+        // Recorded as failed in save()
+      });
+    });
+  }
+
+  private async save(download: Download): Promise<void> {
+    const info: DownloadInfo = {
+      id: `download-${this.nextId}`,
+      suggestedFilename: download.suggestedFilename(),
+      url: download.url(),
+      status: "in_progress",
+      timestamp: Date.now(),
+    };
+    this.nextId += 1;
+    this.downloads.push(info);
+
+    const target = path.join(
+      this.getDirectory(),
+      info.id,
+      path.basename(info.suggestedFilename) || "download",
+    );
+    try {
+      await download.saveAs(target);
+      info.path = target;
+      info.size = fs.statSync(target).size;
+      info.status = "completed";
+    } catch (error) {
+      const failure = await download.failure().catch(() => null);
+      if (failure === "canceled") {
+        info.status = "canceled";
+        return;
+      }
+      info.status = "failed";
+      info.error =
+        failure ?? (error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * All downloads, oldest first (snapshots, so status doesn't change under the caller)
+   */
+  list(): DownloadInfo[] {
+    return this.downloads.map((info) => ({ ...info }));
+  }
+
+  /**
+   * Downloads with a preview of the first lines of completed text files
+   */
+  async inspect(
+    options: { id?: string; previewLines?: number } = {},
+  ): Promise<DownloadDetail[]> {
+    const { id, previewLines = 10 } = options;
+    const selected = id
+      ? this.downloads.filter((info) => info.id === id)
+      : this.downloads;
+    if (id && selected.length === 0) {
+      throw new Error(
+        `Unknown download: ${id}. Downloads: ${this.downloads.map((info) => info.id).join(", ") || "(none)"}`,
+      );
+    }
+    return Promise.all(
+      selected.map(async (info) => ({
+        ...info,
+        preview: await readPreview(info, previewLines),
+      })),
+    );
+  }
+
+  /**
+   * Forget all downloads (files stay on disk)
+   * Ids keep counting so a restarted session doesn't overwrite earlier files.
+   */
+  reset(): void {
+    this.downloads = [];
+  }
+}
+
+async function readPreview(
+  info: DownloadInfo,
+  lines: number,
+): Promise<string[] | undefined> {
+  if (info.status !== "completed" || !info.path || lines <= 0) {
+    return undefined;
+  }
+  const ext = path.extname(info.suggestedFilename).toLowerCase();
+  if (!TEXT_EXTENSIONS.has(ext)) {
+    return undefined;
+  }
+  const text = await Bun.file(info.path).slice(0, PREVIEW_BYTES).text();
+  // Binary content behind a text extension
+  if (text.includes("\u0000")) {
+    return undefined;
+  }
+  return text.split(/\r?\n/).slice(0, lines);
+}
@@ -0,0 +1,366 @@
+import type {
+  BrowserContext,
+  ConsoleMessage,
+  Dialog,
+  Page,
+  Request,
+} from "playwright";
+import { INTERACTIVE_SELECTORS } from "./state";
+
+/**
+ * A request an action started
+ */
+export interface EffectRequest {
+  method: string;
+  url: string;
+  /** Response status (omitted while pending or after a failure) */
+  status?: number;
+  /** Failure text, e.g. net::ERR_CONNECTION_REFUSED */
+  failure?: string;
+}
+
+/**
+ * What one action caused, as seen from the page
+ * Fields are omitted when nothing of that kind happened.
+ */
+export interface ActionEffects {
+  /** URL of the tab when the action started */
+  pageUrl: string;
+  url?: { from: string; to: string };
+  title?: { from: string; to: string };
+  /** URLs of tabs or popups the action opened */
+  newTabs?: string[];
+  /** Dialogs the page showed, e.g. confirm "Delete this item?" */
+  dialogs?: string[];
+  /** Document, fetch, and XHR requests started by the action */
+  requests?: EffectRequest[];
+  consoleErrors?: string[];
+  /** Interactive elements that appeared, e.g. button "Save" */
+  elementsAdded?: string[];
+  /** Interactive elements that went away */
+  elementsRemoved?: string[];
+}
+
+// Static assets would drown out the requests that matter
+const EFFECT_RESOURCE_TYPES = new Set(["document", "fetch", "xhr"]);
+
+// Elements listed per direction; the rest are only counted
+const MAX_LISTED_ELEMENTS = 5;
+
+const PROBE_KEY = "__agentBrowserEffects";
+
+interface ElementChangeProbe {
+  added: string[];
+  removed: string[];
+  observer: MutationObserver;
+}
+
+/**
+ * Records what happens on the active tab while an action runs
+ * Starts listening before the action and summarizes on finish().
+ */
+export class EffectsRecorder {
+  private page: Page;
+  private context: BrowserContext;
+  private isBlocked: () => boolean;
+  private before = { url: "", title: "" };
+  private requests = new Map<Request, EffectRequest>();
+  private newTabs: Page[] = [];
+  private dialogs: string[] = [];
+  private consoleErrors: string[] = [];
+  private responses: Promise<void>[] = [];
+  private finished = false;
+
+  /**
+   * isBlocked reports an open dialog (the page can't be evaluated)
+   */
+  constructor(page: Page, context: BrowserContext, isBlocked: () => boolean) {
+    this.page = page;
+    this.context = context;
+    this.isBlocked = isBlocked;
+  }
+
+  private onRequest = (request: Request) => {
+    if (EFFECT_RESOURCE_TYPES.has(request.resourceType())) {
+      this.requests.set(request, {
+        method: request.method(),
+        url: request.url(),
+      });
+    }
+  };
+
+  private onRequestFinished = (request: Request) => {
+    const entry = this.requests.get(request);
+    if (!entry) {
+      return;
+    }
+    this.responses.push(
+      request
+        .response()
+        .then((response) => {
+          entry.status = response?.status();
+        })
+        .catch(() => {}),
+    );
+  };
+
+  private onRequestFailed = (request: Request) => {
+    const entry = this.requests.get(request);
+    if (entry) {
+      entry.failure = request.failure()?.errorText ?? "failed";
+    }
+  };
+
+  private onConsole = (msg: ConsoleMessage) => {
+    if (msg.type() === "error") {
+      this.consoleErrors.push(msg.text());
+    }
+  };
+
+  private onPageError = (error: Error) => {
+    this.consoleErrors.push(error.message);
+  };
+
+  private onDialog = (dialog: Dialog) => {
+    this.dialogs.push(`${dialog.type()} ${JSON.stringify(dialog.message())}`);
+  };
+
+  private onPage = (page: Page) => {
+    this.newTabs.push(page);
+  };
+
+  /**
+   * Snapshot URL and title and start listening (call before the action runs)
+   */
+  async start(): Promise<void> {
+    this.before = {
+      url: this.page.url(),
+      title: this.canEvaluate() ? await this.page.title().catch(() => "") : "",
+    };
+    this.page.on("request", this.onRequest);
+    this.page.on("requestfinished", this.onRequestFinished);
+    this.page.on("requestfailed", this.onRequestFailed);
+    this.page.on("console", this.onConsole);
+    this.page.on("pageerror", this.onPageError);
+    this.page.on("dialog", this.onDialog);
+    this.context.on("page", this.onPage);
+    if (!this.canEvaluate()) {
+      return;
+    }
+    await this.page
+      .evaluate(
+        ({ key, selector }) => {
+          const w = window as unknown as Record<string, ElementChangeProbe>;
+          w[key]?.observer.disconnect();
+          const describe = (el: Element): string => {
+            const role =
+              el.getAttribute("role") ||
+              (el instanceof HTMLInputElement
+                ? `input[${el.type}]`
+                : el.tagName.toLowerCase());
+            const name = (
+              el.getAttribute("aria-label") ||
+              (el as HTMLElement).innerText ||
+              el.getAttribute("placeholder") ||
+              el.getAttribute("name") ||
+              ""
+            )
+              .trim()
+              .replace(/\s+/g, " ")
+              .slice(0, 40);
+            return name ? `${role} "${name}"` : role;
+          };
+          const matching = (node: Node): Element[] => {
+            if (!(node instanceof Element)) {
+              return [];
+            }
+            const found = Array.from(node.querySelectorAll(selector));
+            return node.matches(selector) ? [node, ...found] : found;
+          };
+          const probe = {
+            added: [],
+            removed: [],
+          } as unknown as ElementChangeProbe;
+          probe.observer = new MutationObserver((records) => {
+            for (const record of records) {
+              for (const node of Array.from(record.addedNodes)) {
+                probe.added.push(...matching(node).map(describe));
+              }
+              for (const node of Array.from(record.removedNodes)) {
+                probe.removed.push(...matching(node).map(describe));
+              }
+            }
+          });
+          probe.observer.observe(document, { subtree: true, childList: true });
+          w[key] = probe;
+        },
+        { key: PROBE_KEY, selector: INTERACTIVE_SELECTORS },
+      )
+      .catch(() => {});
+  }
+
+  private canEvaluate(): boolean {
+    return !this.isBlocked() && !this.page.isClosed();
+  }
+
+  /**
+   * Stop listening and summarize what changed
+   */
+  async finish(): Promise<ActionEffects> {
+    if (this.finished) {
+      return { pageUrl: this.before.url };
+    }
+    this.finished = true;
+    this.stopListening();
+    await Promise.all(this.responses);
+
+    const elementChanges = await this.readElementChanges();
+    const url = this.page.isClosed() ? this.before.url : this.page.url();
+    // The title can't be read while a dialog blocks the page
+    const title = this.canEvaluate()
+      ? await this.page.title().catch(() => this.before.title)
+      : this.before.title;
+
+    const effects: ActionEffects = {
+      pageUrl: this.before.url,
+      url:
+        url !== this.before.url
+          ? { from: this.before.url, to: url }
+          : undefined,
+      title:
+        title !== this.before.title
+          ? { from: this.before.title, to: title }
+          : undefined,
+      newTabs: nonEmpty(this.newTabs.map((page) => page.url())),
+      dialogs: nonEmpty(this.dialogs),
+      requests: nonEmpty(Array.from(this.requests.values())),
+      consoleErrors: nonEmpty(this.consoleErrors),
+      elementsAdded: nonEmpty(elementChanges?.added ?? []),
+      elementsRemoved: nonEmpty(elementChanges?.removed ?? []),
+    };
+    return effects;
+  }
+
+  /**
+   * Stop listening without a summary (the action failed before running)
+   */
+  async dispose(): Promise<void> {
+    if (!this.finished) {
+      this.finished = true;
+      this.stopListening();
+      await this.readElementChanges();
+    }
+  }
+
+  private stopListening(): void {
+    this.page.off("request", this.onRequest);
+    this.page.off("requestfinished", this.onRequestFinished);
+    this.page.off("requestfailed", this.onRequestFailed);
+    this.page.off("console", this.onConsole);
+    this.page.off("pageerror", this.onPageError);
+    this.page.off("dialog", this.onDialog);
+    this.context.off("page", this.onPage);
+  }
+
+  /**
+   * Collect and remove the page-side observer
+   * After a navigation the observer is gone with the old document.
+   */
+  private async readElementChanges(): Promise<{
+    added: string[];
+    removed: string[];
+  } | null> {
+    if (!this.canEvaluate()) {
+      return null;
+    }
+    return this.page
+      .evaluate((key) => {
+        const w = window as unknown as Record<string, ElementChangeProbe>;
+        const probe = w[key];
+        if (!probe) {
+          return null;
+        }
+        probe.observer.disconnect();
+        delete w[key];
+        // Elements moved within the page show up as removed and re-added
+        const removed = [...probe.removed];
+        const added = probe.added.filter((entry) => {
+          const index = removed.indexOf(entry);
+          if (index === -1) {
+            return true;
+          }
+          removed.splice(index, 1);
+          return false;
+        });
+        return { added, removed };
+      }, PROBE_KEY)
+      .catch(() => null);
+  }
+}
+
+function nonEmpty<T>(items: T[]): T[] | undefined {
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Shorten a URL to its path when it's on the same origin as base
+ */
+function shortenUrl(url: string, base: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.origin === new URL(base).origin) {
+      return `${parsed.pathname}${parsed.search}`;
+    }
+  } catch {
+    // Not a URL (e.g. about:blank); keep as is
+  }
+  return url;
+}
+
+function listElements(label: string, elements: string[]): string {
+  const listed = elements.slice(0, MAX_LISTED_ELEMENTS).join(", ");
+  const more =
+    elements.length > MAX_LISTED_ELEMENTS
+      ? `, +${elements.length - MAX_LISTED_ELEMENTS} more`
+      : "";
+  return `${label} ${elements.length} (${listed}${more})`;
+}
+
+/**
+ * Describe effects in one line, e.g.
+ * POST /api/tasks 500, console error: Failed to save, added 1 (button "Retry")
+ * Returns "" when the action had no visible effect.
+ */
+export function describeEffects(effects: ActionEffects): string {
+  const parts: string[] = [];
+  if (effects.url) {
+    parts.push(`URL ${effects.url.from} -> ${effects.url.to}`);
+  }
+  if (effects.title) {
+    parts.push(`title "${effects.title.to}"`);
+  }
+  for (const url of effects.newTabs ?? []) {
+    parts.push(`new tab ${url}`);
+  }
+  for (const dialog of effects.dialogs ?? []) {
+    parts.push(`dialog ${dialog}`);
+  }
+  for (const request of effects.requests ?? []) {
+    const outcome =
+      request.failure ??
+      (request.status != null ? String(request.status) : "pending");
+    parts.push(
+      `${request.method} ${shortenUrl(request.url, effects.pageUrl)} ${outcome}`,
+    );
+  }
+  for (const error of effects.consoleErrors ?? []) {
+    parts.push(`console error: ${error}`);
+  }
+  if (effects.elementsAdded) {
+    parts.push(listElements("added", effects.elementsAdded));
+  }
+  if (effects.elementsRemoved) {
+    parts.push(listElements("removed", effects.elementsRemoved));
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,412 @@
+import { z } from "zod";
+import type { AgentBrowser } from "./browser";
+import {
+  executeActions,
+  executeWait,
+  type StepAction,
+  stepActionSchema,
+  type WaitCondition,
+  waitConditionSchema,
+} from "./commands";
+import { describeCondition } from "./conditions";
+import { describeLocator } from "./locator";
+import type { ElementRefStore, StoredElementRef } from "./ref-store";
+
+// ============================================================================
+// Flow Schemas
+// ============================================================================
+
+/**
+ * Stable description of an element, used instead of transient refs
+ */
+export const elementTargetSchema = z.object({
+  tagName: z.string(),
+  role: z.string().optional(),
+  name: z.string().optional(),
+  fingerprint: z.string().optional(),
+  cssPath: z.string().optional(),
+  /** Iframe selectors leading to the element (main frame if unset) */
+  framePath: z.array(z.string()).optional(),
+});
+
+// Refs used by a step, mapped to the element they pointed at when recorded
+const stepTargetsSchema = z.record(z.string(), elementTargetSchema).optional();
+
+const flowActStepSchema = z.object({
+  kind: z.literal("act"),
+  action: stepActionSchema,
+  targets: stepTargetsSchema,
+});
+
+const flowWaitStepSchema = z.object({
+  kind: z.literal("wait"),
+  condition: waitConditionSchema,
+  timeoutMs: z.number().optional(),
+  targets: stepTargetsSchema,
+});
+
+export const flowStepSchema = z.discriminatedUnion("kind", [
+  flowActStepSchema,
+  flowWaitStepSchema,
+]);
+
+export const flowSchema = z.object({
+  version: z.literal(1),
+  steps: z.array(flowStepSchema),
+});
+
+export type ElementTarget = z.infer<typeof elementTargetSchema>;
+export type FlowStep = z.infer<typeof flowStepSchema>;
+export type Flow = z.infer<typeof flowSchema>;
+
+// ============================================================================
+// Ref Rewriting
+// ============================================================================
+
+/**
+ * Apply fn to every ref referenced by a condition tree
+ */
+function mapConditionRefs(
+  condition: WaitCondition,
+  fn: (ref: string) => string,
+): WaitCondition {
+  const mapped: WaitCondition = { ...condition };
+  if (mapped.visible) mapped.visible = fn(mapped.visible);
+  if (mapped.enabled) mapped.enabled = fn(mapped.enabled);
+  if (mapped.value) {
+    mapped.value = { ...mapped.value, ref: fn(mapped.value.ref) };
+  }
+  if (mapped.all) mapped.all = mapped.all.map((c) => mapConditionRefs(c, fn));
+  if (mapped.any) mapped.any = mapped.any.map((c) => mapConditionRefs(c, fn));
+  if (mapped.not) mapped.not = mapConditionRefs(mapped.not, fn);
+  return mapped;
+}
+
+/**
+ * Apply fn to the ref an action targets (if any)
+ */
+function mapActionRefs(
+  action: StepAction,
+  fn: (ref: string) => string,
+): StepAction {
+  if (action.type === "assert") {
+    return { ...action, expect: mapConditionRefs(action.expect, fn) };
+  }
+  let mapped = action;
+  if ("ref" in mapped && mapped.ref) {
+    mapped = { ...mapped, ref: fn(mapped.ref) };
+  }
+  if (mapped.type === "drag" && mapped.to.ref) {
+    mapped = { ...mapped, to: { ...mapped.to, ref: fn(mapped.to.ref) } };
+  }
+  return mapped;
+}
+
+function toTarget(stored: StoredElementRef): ElementTarget {
+  return {
+    tagName: stored.fingerprint.tagName,
+    role: stored.fingerprint.role,
+    name: stored.fingerprint.label,
+    fingerprint: stored.selectors.fingerprint,
+    cssPath: stored.selectors.cssPath,
+    framePath: stored.framePath,
+  };
+}
+
+/**
+ * Collect targets for every ref that resolves in the current snapshot
+ */
+function collectTargets(
+  refStore: ElementRefStore,
+  collect: (fn: (ref: string) => string) => unknown,
+): Record<string, ElementTarget> | undefined {
+  const targets: Record<string, ElementTarget> = {};
+  collect((ref) => {
+    const stored = refStore.getByRef(ref);
+    if (stored) {
+      targets[ref] = toTarget(stored);
+    }
+    return ref;
+  });
+  return Object.keys(targets).length > 0 ? targets : undefined;
+}
+
+/**
+ * Build a flow step for an action, capturing stable targets for its refs
+ * Must be called before the action runs (refs describe the current snapshot)
+ */
+export function createActStep(
+  refStore: ElementRefStore,
+  action: StepAction,
+): FlowStep {
+  // Index-based targeting is only meaningful for one snapshot; store the ref
+  let normalized = action;
+  if ("index" in action && action.index != null && !action.ref) {
+    const stored = refStore.getByIndex(action.index);
+    if (stored) {
+      const { index: _index, ...rest } = action;
+      normalized = { ...rest, ref: stored.ref } as StepAction;
+    }
+  }
+  return {
+    kind: "act",
+    action: normalized,
+    targets: collectTargets(refStore, (fn) => mapActionRefs(normalized, fn)),
+  };
+}
+
+/**
+ * Build a flow step for a wait condition
+ */
+export function createWaitStep(
+  refStore: ElementRefStore,
+  condition: WaitCondition,
+  timeoutMs?: number,
+): FlowStep {
+  return {
+    kind: "wait",
+    condition,
+    timeoutMs,
+    targets: collectTargets(refStore, (fn) => mapConditionRefs(condition, fn)),
+  };
+}
+
+/**
+ * Find the ref in the current snapshot that best matches a recorded target
+ * Returns undefined when nothing matches, or when several elements still
+ * match after narrowing, so a replay fails instead of acting on a guess.
+ */
+export function resolveTarget(
+  refStore: ElementRefStore,
+  target: ElementTarget,
+): string | undefined {
+  const frame = target.framePath?.join(" >> ") ?? "";
+  const refs = refStore
+    .getAllRefs()
+    .filter((stored) => (stored.framePath?.join(" >> ") ?? "") === frame);
+
+  const semantic = refs.filter(
+    (stored) =>
+      stored.fingerprint.tagName === target.tagName &&
+      stored.fingerprint.role === target.role &&
+      stored.fingerprint.label === target.name,
+  );
+  if (semantic.length === 1) {
+    return semantic[0].ref;
+  }
+
+  // Ambiguous or renamed: narrow by fingerprint, then by DOM path
+  const pool = semantic.length > 0 ? semantic : refs;
+  if (target.fingerprint) {
+    const matches = pool.filter(
+      (stored) => stored.selectors.fingerprint === target.fingerprint,
+    );
+    if (matches.length === 1) {
+      return matches[0].ref;
+    }
+  }
+  if (target.cssPath) {
+    const match = pool.find(
+      (stored) => stored.selectors.cssPath === target.cssPath,
+    );
+    if (match) {
+      return match.ref;
+    }
+  }
+  return undefined;
+}
+
+function describeTarget(target: ElementTarget): string {
+  const kind = target.role || target.tagName;
+  return target.name ? `${kind} "${target.name}"` : kind;
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Accumulates steps for a session and writes them to a flow file
+ */
+export class FlowRecorder {
+  readonly path: string;
+  private steps: FlowStep[] = [];
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  add(step: FlowStep): void {
+    this.steps.push(step);
+  }
+
+  getStepCount(): number {
+    return this.steps.length;
+  }
+
+  toFlow(): Flow {
+    return { version: 1, steps: this.steps };
+  }
+
+  /**
+   * Write the flow recorded so far
+   */
+  async save(): Promise<void> {
+    await Bun.write(this.path, `${JSON.stringify(this.toFlow(), null, 2)}\n`);
+  }
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Result of replaying a single step
+ */
+export interface ReplayStepResult {
+  index: number;
+  description: string;
+  passed: boolean;
+  error?: string;
+  expected?: string;
+  actual?: string;
+}
+
+/**
+ * Result of replaying a flow
+ */
+export interface ReplayReport {
+  passed: boolean;
+  total: number;
+  steps: ReplayStepResult[];
+}
+
+function describeStep(step: FlowStep): string {
+  if (step.kind === "wait") {
+    return `wait ${describeCondition(step.condition)}`;
+  }
+  const { action } = step;
+  if (action.type === "assert") {
+    return `assert ${describeCondition(action.expect)}`;
+  }
+  if ("ref" in action && action.ref && step.targets?.[action.ref]) {
+    return `${action.type} ${describeTarget(step.targets[action.ref])}`;
+  }
+  if ("locator" in action && action.locator) {
+    return `${action.type} ${describeLocator(action.locator)}`;
+  }
+  if (action.type === "navigate") {
+    return `navigate ${action.url}`;
+  }
+  return action.type;
+}
+
+/**
+ * Map a step's recorded refs onto the current snapshot
+ */
+async function resolveStepRefs(
+  browser: AgentBrowser,
+  step: FlowStep,
+): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+  if (!step.targets) {
+    return resolved;
+  }
+
+  // Refresh refs so targets are matched against the current page
+  await browser.refreshRefs();
+  const refStore = browser.getRefStore();
+
+  for (const [ref, target] of Object.entries(step.targets)) {
+    const current = resolveTarget(refStore, target);
+    if (!current) {
+      throw new Error(`No element matches ${describeTarget(target)}`);
+    }
+    resolved.set(ref, current);
+  }
+  return resolved;
+}
+
+/**
+ * Replay a recorded flow, stopping at the first failing step
+ */
+export async function replayFlow(
+  browser: AgentBrowser,
+  flow: Flow,
+): Promise<ReplayReport> {
+  const steps: ReplayStepResult[] = [];
+
+  for (const [index, step] of flow.steps.entries()) {
+    const description = describeStep(step);
+    let result: ReplayStepResult;
+
+    try {
+      const refs = await resolveStepRefs(browser, step);
+      const rewrite = (ref: string) => refs.get(ref) ?? ref;
+
+      if (step.kind === "wait") {
+        await executeWait(browser, mapConditionRefs(step.condition, rewrite), {
+          timeoutMs: step.timeoutMs,
+        });
+        result = { index, description, passed: true };
+      } else {
+        const [actionResult] = await executeActions(browser, [
+          mapActionRefs(step.action, rewrite),
+        ]);
+        result = {
+          index,
+          description,
+          passed: actionResult.error == null,
+          error: actionResult.error,
+          expected: actionResult.expected,
+          actual: actionResult.actual,
+        };
+      }
+    } catch (error) {
+      result = {
+        index,
+        description,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    steps.push(result);
+    if (!result.passed) {
+      break;
+    }
+  }
+
+  return {
+    passed: steps.length === flow.steps.length && steps.every((s) => s.passed),
+    total: flow.steps.length,
+    steps,
+  };
+}
+
+/**
+ * Format a replay report as human-readable text
+ */
+export function formatReplayText(report: ReplayReport): string {
+  const lines: string[] = [];
+  const passedCount = report.steps.filter((s) => s.passed).length;
+  lines.push(
+    `Replay: ${report.passed ? "passed" : "failed"} (${passedCount}/${report.total} steps)`,
+  );
+  for (const step of report.steps) {
+    lines.push(`- ${step.passed ? "pass" : "fail"} ${step.description}`);
+    if (!step.passed) {
+      if (step.error) {
+        lines.push(`  ${step.error}`);
+      }
+      if (step.actual) {
+        lines.push(`  actual: ${step.actual}`);
+      }
+    }
+  }
+  const skipped = report.total - report.steps.length;
+  if (skipped > 0) {
+    lines.push(`(${skipped} step(s) not run)`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,181 @@
+import type { HarOptions, NetworkEventDetail } from "./types";
+import { VERSION } from "./version";
+
+// ============================================================================
+// HAR 1.2 Types (subset we produce)
+// ============================================================================
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: -1;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: -1;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  /** Playwright resource type (custom field) */
+  _resourceType?: string;
+  /** Failure reason for requests that never got a response (custom field) */
+  _failureText?: string;
+}
+
+export interface Har {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+function toHeaderList(headers?: Record<string, string>): HarHeader[] {
+  return Object.entries(headers ?? {}).map(([name, value]) => ({
+    name,
+    value,
+  }));
+}
+
+function findHeader(
+  headers: Record<string, string> | undefined,
+  name: string,
+): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+function toQueryString(url: string): HarHeader[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function toEntry(event: NetworkEventDetail): HarEntry {
+  const time = event.durationMs ?? 0;
+  const startedAt = event.timestamp - time;
+  const requestType = findHeader(event.requestHeaders, "content-type");
+  const responseType =
+    findHeader(event.responseHeaders, "content-type") ?? "x-unknown";
+  const responseSize = event.responseBodySize ?? -1;
+  // Placeholders and cut-off bodies would be replayed as the real response
+  // (routeFromHAR), so only complete bodies are exported
+  const hasFullBody = !event.responseBodyBinary && !event.responseBodyTruncated;
+  const hasFullRequestBody = !event.requestBodyTruncated;
+
+  return {
+    startedDateTime: new Date(startedAt).toISOString(),
+    time,
+    request: {
+      method: event.method,
+      url: event.url,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: toHeaderList(event.requestHeaders),
+      queryString: toQueryString(event.url),
+      postData:
+        event.requestBody != null && hasFullRequestBody
+          ? {
+              mimeType: requestType ?? "application/octet-stream",
+              text: event.requestBody,
+            }
+          : undefined,
+      headersSize: -1,
+      bodySize: event.requestBodySize ?? 0,
+    },
+    response: {
+      // HAR has no field for "never responded"; 0 is the usual convention
+      status: event.type === "failed" ? 0 : (event.status ?? 0),
+      statusText: "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: toHeaderList(event.responseHeaders),
+      content: {
+        size: responseSize,
+        mimeType: responseType,
+        text: hasFullBody ? event.responseBody : undefined,
+      },
+      redirectURL: findHeader(event.responseHeaders, "location") ?? "",
+      headersSize: -1,
+      bodySize: responseSize,
+    },
+    cache: {},
+    timings: { send: 0, wait: time, receive: 0 },
+    _resourceType: event.resourceType,
+    _failureText: event.failureText,
+  };
+}
+
+/**
+ * Whether replaying an entry would serve the response the page got
+ * Without this, routeFromHAR serves a blank body with the real status.
+ */
+function isReplayable(event: NetworkEventDetail): boolean {
+  if (event.type === "failed") {
+    return true;
+  }
+  // No headers means bodies weren't captured for this request
+  return (
+    event.responseHeaders != null &&
+    !event.responseBodyBinary &&
+    !event.responseBodyTruncated &&
+    !event.responseBodyRedacted
+  );
+}
+
+/**
+ * Build a HAR 1.2 log from completed network events
+ * Headers and bodies are included when they were captured
+ * (captureNetworkBodies); requests still in flight are skipped.
+ */
+export function buildHar(
+  events: NetworkEventDetail[],
+  options: HarOptions = {},
+): Har {
+  const entries = events
+    .filter((event) => event.type !== "request")
+    .filter((event) => !options.replayable || isReplayable(event))
+    .map(toEntry)
+    .sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "agent-browser-loop", version: VERSION },
+      entries,
+    },
+  };
+}
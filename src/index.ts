@@ -1,8 +1,24 @@
+// Failed actions translated into causes and next steps
+export {
+  ActionError,
+  type ActionErrorCause,
+  type ActionErrorDetail,
+  actionErrorCauseSchema,
+  classifyActionError,
+  translateActionError,
+} from "./action-errors";
 export * as actions from "./actions";
 export type { AgentBrowserOptions } from "./browser";
 export { AgentBrowser, createBrowser } from "./browser";
 // Re-export utilities
 export { findChromeExecutable } from "./chrome";
+// Conditions (wait/assert evaluation)
+export {
+  type ConditionContext,
+  type ConditionResult,
+  describeCondition,
+  evaluateCondition,
+} from "./conditions";
 // Commands (shared execution logic)
 export {
   type ActionResult,
@@ -11,9 +27,13 @@ export {
   executeActions,
   executeCommand,
   executeWait,
+  formatDownloadsText,
+  formatInspectText,
+  formatNetworkEventText,
   formatStepText,
   formatWaitText,
   getStateWithFormat,
+  type StaleRefReport,
   type StepAction,
   stepActionSchema,
   type WaitCondition,
@@ -37,6 +57,68 @@ export {
   isDaemonRunning,
   startDaemon,
 } from "./daemon";
+// JavaScript dialogs
+export {
+  type DialogInfo,
+  type DialogPolicy,
+  DialogTracker,
+  describeDialog,
+  dialogPolicySchema,
+} from "./dialogs";
+// Downloads
+export {
+  type DownloadDetail,
+  type DownloadInfo,
+  DownloadTracker,
+  describeDownload,
+  formatBytes,
+} from "./downloads";
+// State diffs
+export {
+  diffStates,
+  type ElementChange,
+  formatDiffText,
+  type StateDiff,
+  type TreeHunk,
+} from "./diff";
+// Per-action side effects
+export {
+  type ActionEffects,
+  describeEffects,
+  type EffectRequest,
+  EffectsRecorder,
+} from "./effects";
+// Flows (record/replay)
+export {
+  type ElementTarget,
+  type Flow,
+  FlowRecorder,
+  type FlowStep,
+  flowSchema,
+  formatReplayText,
+  type ReplayReport,
+  type ReplayStepResult,
+  replayFlow,
+  resolveTarget,
+} from "./flow";
+// HAR export
+export { buildHar, type Har, type HarEntry } from "./har";
+// Semantic locators
+export {
+  describeLocator,
+  type ElementLocator,
+  elementLocatorSchema,
+  parseLocator,
+  resolveElementLocator,
+} from "./locator";
+// Network mocking
+export {
+  describeRouteResponse,
+  type RouteInfo,
+  RouteRegistry,
+  type RouteRule,
+  routeRuleSchema,
+} from "./mock";
 // Version
 export { VERSION } from "./version";
 // Profiles
@@ -54,9 +136,21 @@ export {
   saveProfile,
   touchProfile,
 } from "./profiles";
+export type { NetworkRedactOptions } from "./redact";
 export type { ElementSelectors, StoredElementRef } from "./ref-store";
 // Ref store for server-side element reference management
-export { ElementRefStore } from "./ref-store";
+export { ElementRefStore, StaleRefError } from "./ref-store";
+// Post-action settling
+export {
+  describeSettle,
+  resolveSettleOptions,
+  type SettleOptions,
+  type SettleReport,
+  type SettleSetting,
+  SettleTracker,
+  settleOptionsSchema,
+  settleSchema,
+} from "./settle";
 // Server
 export type { BrowserServerConfig } from "./server";
 export { startBrowserServer } from "./server";
@@ -66,15 +160,27 @@ export type {
   BrowserConfig,
   BrowserState,
   ClickOptions,
+  DragOptions,
+  DragTarget,
   DumpNetworkOptions,
   DumpStateOptions,
   DumpStateTextOptions,
+  ElementInspection,
   GetStateOptions,
+  HarOptions,
+  HarReplayOptions,
   InteractiveElement,
   NavigateOptions,
+  NavigationHistory,
+  NetworkActivity,
   NetworkEvent,
+  NetworkEventDetail,
+  PointerOptions,
+  ReloadOptions,
   ScrollPosition,
   StorageState,
   TabInfo,
   TypeOptions,
+  UploadFile,
+  UploadOptions,
 } from "./types";
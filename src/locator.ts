@@ -0,0 +1,187 @@
+import type { Locator, Page } from "playwright";
+import { z } from "zod";
+
+// ============================================================================
+// Semantic Locator Schema
+// ============================================================================
+
+const LOCATOR_KINDS = [
+  "role",
+  "label",
+  "placeholder",
+  "text",
+  "testId",
+  "selector",
+] as const;
+
+/**
+ * Semantic element target, resolved against the live page at action time
+ * Unlike refs, these don't depend on the last state snapshot.
+ * Set exactly one of role, label, placeholder, text, testId, or selector.
+ */
+export const elementLocatorSchema = z
+  .object({
+    /** ARIA role, e.g. "button" (combine with name) */
+    role: z.string().optional(),
+    /** Accessible name for role */
+    name: z.string().optional(),
+    /** Associated label text (form fields) */
+    label: z.string().optional(),
+    placeholder: z.string().optional(),
+    /** Visible text */
+    text: z.string().optional(),
+    /** data-testid attribute */
+    testId: z.string().optional(),
+    /** Raw CSS selector */
+    selector: z.string().optional(),
+    /** Match name/label/placeholder/text exactly (default: case-insensitive substring) */
+    exact: z.boolean().optional(),
+    /** Pick the nth match (0-based) when several elements match */
+    nth: z.number().int().optional(),
+  })
+  .refine((locator) => LOCATOR_KINDS.filter((k) => locator[k]).length === 1, {
+    message:
+      "Locator must set exactly one of role, label, placeholder, text, testId, or selector",
+  });
+
+export type ElementLocator = z.infer<typeof elementLocatorSchema>;
+
+type AriaRole = Parameters<Page["getByRole"]>[0];
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Build a Playwright locator for a semantic target
+ * Playwright waits for the element when the action runs, and fails on
+ * ambiguous matches unless nth is set.
+ */
+export function resolveElementLocator(
+  page: Page,
+  locator: ElementLocator,
+): Locator {
+  const { exact } = locator;
+  let resolved: Locator;
+  if (locator.role) {
+    resolved = page.getByRole(locator.role as AriaRole, {
+      name: locator.name,
+      exact,
+    });
+  } else if (locator.label) {
+    resolved = page.getByLabel(locator.label, { exact });
+  } else if (locator.placeholder) {
+    resolved = page.getByPlaceholder(locator.placeholder, { exact });
+  } else if (locator.text) {
+    resolved = page.getByText(locator.text, { exact });
+  } else if (locator.testId) {
+    resolved = page.getByTestId(locator.testId);
+  } else if (locator.selector) {
+    resolved = page.locator(locator.selector);
+  } else {
+    throw new Error(
+      "Locator must set one of role, label, placeholder, text, testId, or selector",
+    );
+  }
+  return locator.nth != null ? resolved.nth(locator.nth) : resolved;
+}
+
+// ============================================================================
+// Text Syntax
+// ============================================================================
+
+function quoteIfExact(value: string, exact?: boolean): string {
+  return exact ? JSON.stringify(value) : value;
+}
+
+/**
+ * Describe a locator in the CLI syntax, e.g. role=button[name="Save"]
+ */
+export function describeLocator(locator: ElementLocator): string {
+  let text: string;
+  if (locator.role) {
+    text = `role=${locator.role}${locator.name != null ? `[name=${JSON.stringify(locator.name)}]` : ""}`;
+  } else if (locator.label) {
+    text = `label=${quoteIfExact(locator.label, locator.exact)}`;
+  } else if (locator.placeholder) {
+    text = `placeholder=${quoteIfExact(locator.placeholder, locator.exact)}`;
+  } else if (locator.text) {
+    text = `text=${quoteIfExact(locator.text, locator.exact)}`;
+  } else if (locator.testId) {
+    text = `testid=${locator.testId}`;
+  } else {
+    text = `css=${locator.selector ?? ""}`;
+  }
+  return locator.nth != null ? `${text} (nth=${locator.nth})` : text;
+}
+
+/**
+ * Split "target:rest" on the first colon outside quotes and brackets
+ */
+export function splitLocatorArg(value: string): [string, string | undefined] {
+  let quoted = false;
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '"' && value[i - 1] !== "\\") {
+      quoted = !quoted;
+    } else if (!quoted && char === "[") {
+      depth += 1;
+    } else if (!quoted && char === "]") {
+      depth = Math.max(0, depth - 1);
+    } else if (!quoted && depth === 0 && char === ":") {
+      return [value.slice(0, i), value.slice(i + 1)];
+    }
+  }
+  return [value, undefined];
+}
+
+function unquote(value: string): { value: string; quoted: boolean } {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return { value: JSON.parse(value) as string, quoted: true };
+    } catch {
+      return { value: value.slice(1, -1), quoted: true };
+    }
+  }
+  return { value, quoted: false };
+}
+
+/**
+ * Parse the CLI target syntax
+ * role=button[name="Save"], label=Email, placeholder=Search, text="Sign in",
+ * testid=submit, css=.toolbar button. Quoted label/placeholder/text values
+ * match exactly. Returns null for anything else (e.g. a plain ref).
+ */
+export function parseLocator(value: string): ElementLocator | null {
+  const match = /^(role|label|placeholder|text|testid|css)=(.+)$/s.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, kind, raw] = match;
+
+  if (kind === "role") {
+    const roleMatch = /^([\w-]+)(?:\[name=(.*)\])?$/s.exec(raw);
+    if (!roleMatch) {
+      throw new Error(
+        `Invalid role target: ${value} (expected role=button[name="Save"])`,
+      );
+    }
+    const [, role, name] = roleMatch;
+    return name != null ? { role, name: unquote(name).value } : { role };
+  }
+
+  const { value: text, quoted } = unquote(raw);
+  switch (kind) {
+    case "label":
+      return { label: text, exact: quoted || undefined };
+    case "placeholder":
+      return { placeholder: text, exact: quoted || undefined };
+    case "text":
+      return { text, exact: quoted || undefined };
+    case "testid":
+      return { testId: text };
+    default:
+      return { selector: text };
+  }
+}
@@ -0,0 +1,188 @@
+import type { BrowserContext, Route } from "playwright";
+import { z } from "zod";
+
+// ============================================================================
+// Route Rule Schema
+// ============================================================================
+
+/**
+ * A mock/interception rule. Matches by URL glob (or regex when regex is set)
+ * and either fulfills with a canned response or aborts the request.
+ */
+export const routeRuleSchema = z.object({
+  /** URL glob, or a regex source when regex is true */
+  url: z.string().min(1),
+  regex: z.boolean().optional(),
+  /** Only match this HTTP method */
+  method: z.string().optional(),
+  /** Response status (default: 200) */
+  status: z.number().int().min(100).max(599).optional(),
+  /** Response body as text */
+  body: z.string().optional(),
+  /** Response body serialized as JSON */
+  json: z.unknown().optional(),
+  /** Serve the response body from a file */
+  path: z.string().optional(),
+  contentType: z.string().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  /** Delay before responding, in ms */
+  delayMs: z.number().int().min(0).optional(),
+  /** Abort instead of responding (true or a Playwright error code like "failed") */
+  abort: z.union([z.boolean(), z.string()]).optional(),
+  /** Remove the rule after this many matches */
+  times: z.number().int().positive().optional(),
+});
+
+export type RouteRule = z.infer<typeof routeRuleSchema>;
+
+/**
+ * Active rule as reported in state
+ */
+export interface RouteInfo extends RouteRule {
+  id: string;
+  /** Number of requests handled so far */
+  hits: number;
+}
+
+// ============================================================================
+// Route Registry
+// ============================================================================
+
+interface ActiveRoute {
+  info: RouteInfo;
+  matcher: string | RegExp;
+  handler: (route: Route) => Promise<void>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Describe a rule's response in a few words
+ */
+export function describeRouteResponse(rule: RouteRule): string {
+  const parts: string[] = [];
+  if (rule.abort) {
+    parts.push(
+      typeof rule.abort === "string" ? `abort(${rule.abort})` : "abort",
+    );
+  } else {
+    parts.push(String(rule.status ?? 200));
+    if (rule.path) {
+      parts.push(`file ${rule.path}`);
+    } else if (rule.json !== undefined) {
+      parts.push("json");
+    } else if (rule.body !== undefined) {
+      parts.push("body");
+    }
+  }
+  if (rule.delayMs) {
+    parts.push(`after ${rule.delayMs}ms`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Routes registered on a browser context
+ * Context-level routes apply to every tab, including popups.
+ */
+export class RouteRegistry {
+  private routes = new Map<string, ActiveRoute>();
+  private nextId = 0;
+
+  /**
+   * Register a rule and return its info (including the generated id)
+   */
+  async add(context: BrowserContext, rule: RouteRule): Promise<RouteInfo> {
+    const parsed = routeRuleSchema.parse(rule);
+    const id = `route-${this.nextId}`;
+    this.nextId += 1;
+    const info: RouteInfo = { ...parsed, id, hits: 0 };
+    const matcher = parsed.regex ? new RegExp(parsed.url) : parsed.url;
+
+    const handler = async (route: Route) => {
+      const request = route.request();
+      if (
+        parsed.method &&
+        request.method().toUpperCase() !== parsed.method.toUpperCase()
+      ) {
+        await route.fallback();
+        return;
+      }
+
+      info.hits++;
+      if (parsed.times != null && info.hits >= parsed.times) {
+        await this.remove(context, id);
+      }
+
+      if (parsed.delayMs) {
+        await sleep(parsed.delayMs);
+      }
+
+      if (parsed.abort) {
+        await route.abort(
+          typeof parsed.abort === "string" ? parsed.abort : undefined,
+        );
+        return;
+      }
+
+      await route.fulfill({
+        status: parsed.status ?? 200,
+        headers: parsed.headers,
+        contentType: parsed.contentType,
+        body: parsed.body,
+        json: parsed.body === undefined ? parsed.json : undefined,
+        path: parsed.path,
+      });
+    };
+
+    await context.route(matcher, handler);
+    this.routes.set(id, { info, matcher, handler });
+    return { ...info };
+  }
+
+  /**
+   * Remove a rule by id (returns false if it doesn't exist)
+   */
+  async remove(context: BrowserContext, id: string): Promise<boolean> {
+    const active = this.routes.get(id);
+    if (!active) {
+      return false;
+    }
+    this.routes.delete(id);
+    await context.unroute(active.matcher, active.handler);
+    return true;
+  }
+
+  /**
+   * Remove every rule, or every rule registered for the given URL pattern
+   */
+  async removeAll(context: BrowserContext, url?: string): Promise<string[]> {
+    const removed: string[] = [];
+    for (const [id, active] of Array.from(this.routes)) {
+      if (url === undefined || active.info.url === url) {
+        await this.remove(context, id);
+        removed.push(id);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Active rules (snapshots, so hit counts don't change under the caller)
+   */
+  list(): RouteInfo[] {
+    return Array.from(this.routes.values()).map((active) => ({
+      ...active.info,
+    }));
+  }
+
+  /**
+   * Forget all rules without unrouting (the context is going away)
+   */
+  reset(): void {
+    this.routes.clear();
+    this.nextId = 0;
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Redaction rules for captured network headers and bodies
+ */
+export interface NetworkRedactOptions {
+  /** Header names to redact (case-insensitive) */
+  headers?: string[];
+  /** JSON/form field names to redact (case-insensitive) */
+  fields?: string[];
+}
+
+export const REDACTED = "[REDACTED]";
+
+export const DEFAULT_REDACT_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+];
+
+export const DEFAULT_REDACT_FIELDS = [
+  "password",
+  "token",
+  "access_token",
+  "refresh_token",
+  "secret",
+];
+
+/**
+ * Merge user rules with the defaults into lowercase lookup sets
+ */
+export function resolveRedactRules(options: NetworkRedactOptions = {}): {
+  headers: Set<string>;
+  fields: Set<string>;
+} {
+  const lower = (values: string[]) => values.map((v) => v.toLowerCase());
+  return {
+    headers: new Set(
+      lower([...DEFAULT_REDACT_HEADERS, ...(options.headers ?? [])]),
+    ),
+    fields: new Set(
+      lower([...DEFAULT_REDACT_FIELDS, ...(options.fields ?? [])]),
+    ),
+  };
+}
+
+export function redactHeaders(
+  headers: Record<string, string>,
+  names: Set<string>,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = names.has(name.toLowerCase()) ? REDACTED : value;
+  }
+  return result;
+}
+
+function redactJsonValue(value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactJsonValue(item, fields));
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = fields.has(key.toLowerCase())
+        ? REDACTED
+        : redactJsonValue(child, fields);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Redact matching fields in a JSON or form-encoded body
+ * Other bodies are returned unchanged.
+ */
+export function redactBody(
+  body: string,
+  contentType: string | undefined,
+  fields: Set<string>,
+): string {
+  if (fields.size === 0) {
+    return body;
+  }
+  const type = contentType?.toLowerCase() ?? "";
+
+  if (type.includes("json")) {
+    try {
+      return JSON.stringify(redactJsonValue(JSON.parse(body), fields));
+    } catch {
+      return body;
+    }
+  }
+
+  if (type.includes("application/x-www-form-urlencoded")) {
+    const params = new URLSearchParams(body);
+    for (const key of Array.from(params.keys())) {
+      if (fields.has(key.toLowerCase())) {
+        params.set(key, REDACTED);
+      }
+    }
+    return params.toString();
+  }
+
+  return body;
+}
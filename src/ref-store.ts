@@ -1,13 +1,13 @@
-import type { Locator, Page } from "playwright";
+import type { FrameLocator, Locator, Page } from "playwright";
 
 /**
  * Selector strategies for locating an element
  * Multiple strategies provide resilience if one fails
  */
 export interface ElementSelectors {
-  /** XPath from document root */
+  /** XPath from document root (shadow roots appear as #shadow-root) */
   xpath: string;
-  /** CSS selector path */
+  /** CSS selector path (chained with >> through shadow hosts) */
   cssPath: string;
   /** Fingerprint-based selector using stable attributes */
   fingerprint?: string;
@@ -21,8 +21,12 @@ export interface StoredElementRef {
   ref: string;
   /** Sequential index */
   index: number;
+  /** Snapshot version the element was last seen in */
+  version: number;
   /** Multiple selector strategies */
   selectors: ElementSelectors;
+  /** Iframe selectors leading to the element's frame (main frame if unset) */
+  framePath?: string[];
   /** Element fingerprint for validation */
   fingerprint: {
     tagName: string;
@@ -30,25 +34,282 @@ export interface StoredElementRef {
     type?: string;
     name?: string;
     placeholder?: string;
+    /** Accessible name (label, aria-label, or text) */
+    label?: string;
   };
 }
 
+/**
+ * An element found in a new snapshot, before it has a ref
+ */
+export interface RefCandidate {
+  /** Ref prefix, e.g. "button" */
+  refBase: string;
+  selectors: ElementSelectors;
+  fingerprint: StoredElementRef["fingerprint"];
+  framePath?: string[];
+}
+
+/**
+ * Outcome of matching a snapshot against the previous one
+ */
+export interface ReconcileResult {
+  /** Assigned ref for each candidate, in order */
+  refs: string[];
+  /** Refs that didn't exist in the previous snapshot */
+  newRefs: Set<string>;
+  /** Refs from the previous snapshot that are no longer on the page */
+  removedRefs: string[];
+}
+
+/**
+ * Describe a fingerprint for messages, e.g. button "Save" (type=submit)
+ */
+export function describeFingerprint(
+  fingerprint: StoredElementRef["fingerprint"],
+): string {
+  const kind = fingerprint.role || fingerprint.tagName;
+  const attrs = (["type", "name", "placeholder"] as const)
+    .filter((key) => fingerprint[key])
+    .map((key) => `${key}=${fingerprint[key]}`);
+  return `${kind}${fingerprint.label ? ` "${fingerprint.label}"` : ""}${attrs.length ? ` (${attrs.join(", ")})` : ""}`;
+}
+
+/**
+ * Thrown when a ref's element is no longer on the page, or its stored
+ * selectors now point at a different element
+ */
+export class StaleRefError extends Error {
+  readonly ref: string;
+  /** Snapshot version the ref was captured in */
+  readonly version: number;
+  /** The element the ref pointed at */
+  readonly expected: StoredElementRef;
+  /** What the stored selectors find now (null if nothing) */
+  readonly actual: StoredElementRef["fingerprint"] | null;
+
+  constructor(
+    expected: StoredElementRef,
+    actual: StoredElementRef["fingerprint"] | null,
+  ) {
+    super(
+      `Ref stale: element changed (${expected.ref} from snapshot ${expected.version}). Expected ${describeFingerprint(expected.fingerprint)}, found ${actual ? describeFingerprint(actual) : "nothing"}. Call getState() again to refresh element refs.`,
+    );
+    this.name = "StaleRefError";
+    this.ref = expected.ref;
+    this.version = expected.version;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * Fingerprint of whatever a selector currently matches (for stale errors)
+ */
+async function describeElementAt(
+  locator: Locator,
+): Promise<StoredElementRef["fingerprint"] | null> {
+  if ((await locator.count().catch(() => 0)) === 0) {
+    return null;
+  }
+  return locator
+    .first()
+    .evaluate((el) => {
+      const element = el as HTMLElement;
+      const text = (
+        element.getAttribute("aria-label") ||
+        element.textContent ||
+        (element as HTMLInputElement).value ||
+        ""
+      )
+        .replace(/\s+/g, " ")
+        .trim();
+      return {
+        tagName: element.tagName.toLowerCase(),
+        role: element.getAttribute("role") || undefined,
+        type: element.getAttribute("type") || undefined,
+        name: element.getAttribute("name") || undefined,
+        placeholder: element.getAttribute("placeholder") || undefined,
+        label: text.slice(0, 50) || undefined,
+      };
+    })
+    .catch(() => null);
+}
+
+/**
+ * Whether an element's xpath passes through a shadow root
+ */
+function isShadowXPath(xpath: string): boolean {
+  return xpath.includes("/#shadow-root/");
+}
+
+// Minimum score for an element to keep its previous ref
+const MIN_MATCH_SCORE = 3;
+
+/**
+ * Dice coefficient over character bigrams (1 = identical)
+ */
+function textSimilarity(a: string, b: string): number {
+  const left = a.toLowerCase().trim();
+  const right = b.toLowerCase().trim();
+  if (!left || !right) {
+    return 0;
+  }
+  if (left === right) {
+    return 1;
+  }
+  if (left.length < 2 || right.length < 2) {
+    return 0;
+  }
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+  return (2 * overlap) / (left.length + right.length - 2);
+}
+
+/**
+ * How likely a new element is the same one a stored ref pointed at
+ * Stable attributes and the accessible name weigh most; position
+ * (xpath/css path) confirms elements whose label changed.
+ */
+function matchScore(prev: StoredElementRef, next: RefCandidate): number {
+  let score = 0;
+  if (
+    prev.selectors.fingerprint &&
+    prev.selectors.fingerprint === next.selectors.fingerprint
+  ) {
+    score += 3;
+  }
+  if (prev.selectors.xpath === next.selectors.xpath) {
+    score += 2;
+  }
+  if (prev.selectors.cssPath === next.selectors.cssPath) {
+    score += 1;
+  }
+  score +=
+    3 *
+    textSimilarity(prev.fingerprint.label ?? "", next.fingerprint.label ?? "");
+  return score;
+}
+
+// Only elements of the same kind in the same frame can match
+function matchBucket(
+  element: Pick<StoredElementRef, "fingerprint" | "framePath">,
+): string {
+  const { fingerprint } = element;
+  return `${element.framePath?.join(" >> ") ?? ""}|${fingerprint.tagName}|${fingerprint.role ?? ""}|${fingerprint.type ?? ""}`;
+}
+
 /**
  * Server-side store for element references
- * Avoids DOM modification that causes React hydration errors
+ * Avoids DOM modification that causes React hydration errors.
+ * Refs carry over between snapshots while the element stays on the page.
  */
 export class ElementRefStore {
   private refMap = new Map<string, StoredElementRef>();
   private indexMap = new Map<number, StoredElementRef>();
+  private counters = new Map<string, number>();
   private snapshotVersion = 0;
 
   /**
-   * Clear all stored refs (call before new snapshot)
+   * Forget all refs (the page changed, so nothing carries over)
    */
   clear(): void {
+    this.refMap.clear();
+    this.indexMap.clear();
+    this.counters.clear();
+    this.snapshotVersion++;
+  }
+
+  /**
+   * Replace the stored refs with a new snapshot
+   * Elements that match one from the previous snapshot keep its ref; the
+   * rest get fresh refs that haven't been used since the last clear().
+   */
+  reconcile(candidates: RefCandidate[]): ReconcileResult {
+    const previous = Array.from(this.refMap.values());
+
+    const buckets = new Map<string, StoredElementRef[]>();
+    for (const stored of previous) {
+      const key = matchBucket(stored);
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(stored);
+      } else {
+        buckets.set(key, [stored]);
+      }
+    }
+
+    const pairs: Array<{
+      prev: StoredElementRef;
+      next: number;
+      score: number;
+    }> = [];
+    for (const [next, candidate] of candidates.entries()) {
+      for (const prev of buckets.get(matchBucket(candidate)) ?? []) {
+        const score = matchScore(prev, candidate);
+        if (score >= MIN_MATCH_SCORE) {
+          pairs.push({ prev, next, score });
+        }
+      }
+    }
+    // Best matches first; ties go to the element that moved least
+    pairs.sort(
+      (a, b) =>
+        b.score - a.score ||
+        Math.abs(a.prev.index - a.next) - Math.abs(b.prev.index - b.next),
+    );
+
+    const refs: Array<string | undefined> = new Array(candidates.length);
+    const kept = new Set<string>();
+    for (const { prev, next } of pairs) {
+      if (refs[next] === undefined && !kept.has(prev.ref)) {
+        refs[next] = prev.ref;
+        kept.add(prev.ref);
+      }
+    }
+
+    const newRefs = new Set<string>();
     this.refMap.clear();
     this.indexMap.clear();
     this.snapshotVersion++;
+
+    const assigned = candidates.map((candidate, index) => {
+      let ref = refs[index];
+      if (ref === undefined) {
+        const counter = this.counters.get(candidate.refBase) ?? 0;
+        this.counters.set(candidate.refBase, counter + 1);
+        ref = `${candidate.refBase}_${counter}`;
+        newRefs.add(ref);
+      }
+      this.set(
+        ref,
+        index,
+        candidate.selectors,
+        candidate.fingerprint,
+        candidate.framePath,
+      );
+      return ref;
+    });
+
+    return {
+      refs: assigned,
+      newRefs,
+      removedRefs: previous
+        .map((stored) => stored.ref)
+        .filter((ref) => !kept.has(ref)),
+    };
   }
 
   /**
@@ -66,8 +327,16 @@ export class ElementRefStore {
     index: number,
     selectors: ElementSelectors,
     fingerprint: StoredElementRef["fingerprint"],
+    framePath?: string[],
   ): void {
-    const stored: StoredElementRef = { ref, index, selectors, fingerprint };
+    const stored: StoredElementRef = {
+      ref,
+      index,
+      version: this.snapshotVersion,
+      selectors,
+      fingerprint,
+      framePath,
+    };
     this.refMap.set(ref, stored);
     this.indexMap.set(index, stored);
   }
@@ -110,10 +379,16 @@ export class ElementRefStore {
         );
       }
     } else {
-      throw new Error("Must provide either ref or index");
+      throw new Error("Must provide a ref, index, or locator");
     }
 
-    const pickMatching = async (locator: Locator): Promise<Locator | null> => {
+    const target = stored;
+    // Strict matching also requires the accessible name, so a selector that
+    // now points at a different element of the same kind isn't mistaken for it
+    const pickMatching = async (
+      locator: Locator,
+      strict: boolean,
+    ): Promise<Locator | null> => {
       const count = await locator.count();
       if (count === 0) {
         return null;
@@ -121,40 +396,72 @@ export class ElementRefStore {
 
       for (let i = 0; i < count; i++) {
         const candidate = locator.nth(i);
-        const matches = await candidate.evaluate((el, fingerprint) => {
-          const element = el as HTMLElement;
-          if (
-            fingerprint.tagName &&
-            element.tagName.toLowerCase() !== fingerprint.tagName
-          ) {
-            return false;
-          }
-          if (
-            fingerprint.role &&
-            element.getAttribute("role") !== fingerprint.role
-          ) {
-            return false;
-          }
-          if (
-            fingerprint.type &&
-            element.getAttribute("type") !== fingerprint.type
-          ) {
-            return false;
-          }
-          if (
-            fingerprint.name &&
-            element.getAttribute("name") !== fingerprint.name
-          ) {
-            return false;
-          }
-          if (
-            fingerprint.placeholder &&
-            element.getAttribute("placeholder") !== fingerprint.placeholder
-          ) {
-            return false;
-          }
-          return true;
-        }, stored!.fingerprint);
+        const matches = await candidate.evaluate(
+          (el, { fingerprint, strict }) => {
+            const element = el as HTMLElement;
+            if (
+              fingerprint.tagName &&
+              element.tagName.toLowerCase() !== fingerprint.tagName
+            ) {
+              return false;
+            }
+            // Stored roles include implicit ones; only explicit roles can conflict
+            const explicitRole = element.getAttribute("role");
+            if (
+              fingerprint.role &&
+              explicitRole &&
+              explicitRole !== fingerprint.role
+            ) {
+              return false;
+            }
+            if (
+              fingerprint.type &&
+              element.getAttribute("type") !== fingerprint.type
+            ) {
+              return false;
+            }
+            if (
+              fingerprint.name &&
+              element.getAttribute("name") !== fingerprint.name
+            ) {
+              return false;
+            }
+            if (
+              fingerprint.placeholder &&
+              element.getAttribute("placeholder") !== fingerprint.placeholder
+            ) {
+              return false;
+            }
+            if (strict && fingerprint.label) {
+              const normalize = (value?: string | null) =>
+                value?.replace(/\s+/g, " ").trim() ?? "";
+              const label = normalize(fingerprint.label);
+              const input = element as HTMLInputElement;
+              const root = element.getRootNode() as Document | ShadowRoot;
+              const labelledBy = (element.getAttribute("aria-labelledby") ?? "")
+                .split(/\s+/)
+                .map((id) => (id ? root.getElementById(id)?.textContent : ""));
+              const names = [
+                element.getAttribute("aria-label"),
+                ...labelledBy,
+                ...Array.from(input.labels ?? [], (node) => node.textContent),
+                element.closest("label")?.textContent,
+                element.getAttribute("title"),
+                element.getAttribute("placeholder"),
+                element.getAttribute("name"),
+                input.value,
+                element.textContent,
+              ].map(normalize);
+              if (
+                !names.some((name) => name !== "" && name.startsWith(label))
+              ) {
+                return false;
+              }
+            }
+            return true;
+          },
+          { fingerprint: target.fingerprint, strict },
+        );
 
         if (matches) {
           return candidate;
@@ -165,45 +472,79 @@ export class ElementRefStore {
     };
 
     const selectors = stored.selectors;
-
-    const xpathLocator = page.locator(`xpath=${selectors.xpath}`);
-    const xpathMatch = await pickMatching(xpathLocator);
-    if (xpathMatch) {
-      return xpathMatch;
-    }
-
-    const cssLocator = page.locator(selectors.cssPath);
-    const cssMatch = await pickMatching(cssLocator);
-    if (cssMatch) {
-      return cssMatch;
+    // Elements in child frames resolve through the chain of iframes
+    let scope: Page | FrameLocator = page;
+    for (const frameSelector of stored.framePath ?? []) {
+      scope = scope.frameLocator(frameSelector);
     }
 
+    // XPath can't reach into shadow roots; the CSS path pierces them
+    const xpathLocator = isShadowXPath(selectors.xpath)
+      ? null
+      : scope.locator(`xpath=${selectors.xpath}`);
+    const cssLocator = scope.locator(selectors.cssPath);
     let fingerprintLocator: Locator | null = null;
     if (selectors.fingerprint) {
       const tagPrefix = stored.fingerprint.tagName || "";
       const fingerprintSelector = selectors.fingerprint.startsWith("[")
         ? `${tagPrefix}${selectors.fingerprint}`
         : selectors.fingerprint;
-      fingerprintLocator = page.locator(fingerprintSelector);
-      const fingerprintMatch = await pickMatching(fingerprintLocator);
-      if (fingerprintMatch) {
-        return fingerprintMatch;
-      }
+      fingerprintLocator = scope.locator(fingerprintSelector);
     }
 
-    // Last resort: fall back to first match from the best available selector.
-    if (await xpathLocator.count()) {
-      return xpathLocator.first();
-    }
-    if (await cssLocator.count()) {
-      return cssLocator.first();
+    for (const locator of [xpathLocator, cssLocator, fingerprintLocator]) {
+      const match = locator ? await pickMatching(locator, true) : null;
+      if (match) {
+        return match;
+      }
     }
-    if (fingerprintLocator && (await fingerprintLocator.count())) {
-      return fingerprintLocator.first();
+
+    // The label may have changed ("Save" -> "Saving..."). Only the
+    // fingerprint's stable attributes can vouch for that, and only when they
+    // find exactly one element: positional selectors land on a neighbour
+    // once a row is removed, and generic fingerprints like
+    // button[type="submit"] often match several.
+    if (fingerprintLocator && (await fingerprintLocator.count()) === 1) {
+      const match = await pickMatching(fingerprintLocator, false);
+      if (match) {
+        return match;
+      }
     }
 
-    throw new Error(
-      `Unable to resolve element for ref ${stored.ref}. Call getState() again to refresh element refs.`,
+    const current = await describeElementAt(xpathLocator ?? cssLocator);
+    throw new StaleRefError(stored, current);
+  }
+
+  /**
+   * Find the element in the current snapshot that best matches a stale ref
+   * Requires the same kind of element in the same frame and the same
+   * accessible name; the same ref, then stable attributes, break ties.
+   * Returns undefined when several candidates remain, rather than guessing.
+   * A relabelled element is found only if the snapshot kept its ref, or its
+   * fingerprint selector picks it out alone.
+   */
+  rematch(stale: StoredElementRef): StoredElementRef | undefined {
+    const sameKind = this.getAllRefs().filter(
+      (stored) => matchBucket(stored) === matchBucket(stale),
+    );
+    const candidates = sameKind.filter(
+      (stored) => stored.fingerprint.label === stale.fingerprint.label,
+    );
+    const sameFingerprint = (stored: StoredElementRef) =>
+      Boolean(stale.selectors.fingerprint) &&
+      stored.selectors.fingerprint === stale.selectors.fingerprint;
+    const only = (matches: StoredElementRef[]) =>
+      matches.length === 1 ? matches[0] : undefined;
+    if (candidates.length > 0) {
+      return (
+        candidates.find((stored) => stored.ref === stale.ref) ??
+        only(candidates.filter(sameFingerprint)) ??
+        only(candidates)
+      );
+    }
+    return (
+      sameKind.find((stored) => stored.ref === stale.ref) ??
+      only(sameKind.filter(sameFingerprint))
     );
   }
 
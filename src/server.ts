@@ -2,6 +2,7 @@ import { createRoute, OpenAPIHono, z } from "@hono/zod-openapi";
 
 import type { Context } from "hono";
 import { HTTPException } from "hono/http-exception";
+import { actionErrorCauseSchema } from "./action-errors";
 import type { AgentBrowserOptions } from "./browser";
 import { createBrowser } from "./browser";
 import {
@@ -12,11 +13,13 @@ import {
   formatStepText,
   formatWaitText,
   getStateOptionsSchema,
+  getStateWithFormat,
   type StepAction,
   stepActionSchema,
   type WaitCondition,
   waitConditionSchema,
 } from "./commands";
+import { formatDiffText } from "./diff";
 import { createIdGenerator } from "./id";
 import { log } from "./log";
 import {
@@ -27,6 +30,7 @@ import {
   resolveStorageStateOption,
   saveProfile,
 } from "./profiles";
+import { type SettleSetting, settleSchema } from "./settle";
 import { formatStateText } from "./state";
 import type { StorageState } from "./types";
 
@@ -132,7 +136,10 @@ const stepRequestSchema = z.object({
   state: getStateOptionsSchema.optional(),
   includeState: z.boolean().default(false),
   includeStateText: z.boolean().default(true),
+  includeDiff: z.boolean().default(false),
   haltOnError: z.boolean().default(true),
+  retryStale: z.boolean().default(false),
+  settle: settleSchema.optional(),
 });
 
 // WaitCondition type and waitConditionSchema are imported from ./commands
@@ -144,6 +151,7 @@ const waitWithExpectSchema = z.object({
   timeoutMs: z.number().int().optional(),
   includeState: z.boolean().default(false),
   includeStateText: z.boolean().default(true),
+  includeDiff: z.boolean().default(false),
   state: getStateOptionsSchema.optional(),
 });
 
@@ -153,10 +161,26 @@ const waitInlineSchema = z
     timeoutMs: z.number().int().optional(),
     includeState: z.boolean().default(false),
     includeStateText: z.boolean().default(true),
+    includeDiff: z.boolean().default(false),
     state: getStateOptionsSchema.optional(),
   })
   .extend(waitConditionSchema.shape);
 
+const waitConditionKeys = Object.keys(waitConditionSchema.shape) as Array<
+  keyof WaitCondition
+>;
+
+// Keep only condition fields from an inline wait body
+function pickWaitCondition(data: WaitCondition): WaitCondition {
+  const condition: Record<string, unknown> = {};
+  for (const key of waitConditionKeys) {
+    if (data[key] !== undefined) {
+      condition[key] = data[key];
+    }
+  }
+  return condition as WaitCondition;
+}
+
 // Transform incoming request to normalized form
 const waitRequestSchema = z
   .union([
@@ -183,6 +207,8 @@ const waitRequestSchema = z
             "includeStateText" in data
               ? (data.includeStateText as boolean)
               : true,
+          includeDiff:
+            "includeDiff" in data ? (data.includeDiff as boolean) : false,
           state:
             "state" in data
               ? (data.state as
@@ -193,18 +219,7 @@ const waitRequestSchema = z
       }
       return {
         kind: "inline",
-        selector:
-          "selector" in data
-            ? (data.selector as string | undefined)
-            : undefined,
-        text: "text" in data ? (data.text as string | undefined) : undefined,
-        url: "url" in data ? (data.url as string | undefined) : undefined,
-        notSelector:
-          "notSelector" in data
-            ? (data.notSelector as string | undefined)
-            : undefined,
-        notText:
-          "notText" in data ? (data.notText as string | undefined) : undefined,
+        ...pickWaitCondition(data as WaitCondition),
         timeoutMs:
           "timeoutMs" in data
             ? (data.timeoutMs as number | undefined)
@@ -215,6 +230,8 @@ const waitRequestSchema = z
           "includeStateText" in data
             ? (data.includeStateText as boolean)
             : true,
+        includeDiff:
+          "includeDiff" in data ? (data.includeDiff as boolean) : false,
         state:
           "state" in data
             ? (data.state as z.infer<typeof getStateOptionsSchema> | undefined)
@@ -229,13 +246,7 @@ function getWaitCondition(data: WaitRequest): WaitCondition {
   if (data.kind === "expect") {
     return data.expect;
   }
-  return {
-    selector: data.selector,
-    text: data.text,
-    url: data.url,
-    notSelector: data.notSelector,
-    notText: data.notText,
-  };
+  return pickWaitCondition(data);
 }
 
 const createSessionBodySchema = z.object({
@@ -248,6 +259,10 @@ const sessionParamsSchema = z.object({
   sessionId: z.string(),
 });
 
+const stateQuerySchema = z.object({
+  diff: z.enum(["true", "false"]).optional(),
+});
+
 // Response schemas
 const errorResponseSchema = z.object({
   error: z.string(),
@@ -273,18 +288,69 @@ const stepResultSchema = z.object({
   action: stepActionSchema,
   result: z.unknown().optional(),
   error: z.string().optional(),
+  errorDetail: z
+    .object({
+      cause: actionErrorCauseSchema,
+      message: z.string(),
+      suggestion: z.string(),
+      coveredBy: z.string().optional(),
+    })
+    .optional(),
+  passed: z.boolean().optional(),
+  expected: z.string().optional(),
+  actual: z.string().optional(),
+  staleRef: z
+    .object({
+      ref: z.string(),
+      expected: z.string(),
+      actual: z.string().optional(),
+      retriedWith: z.string().optional(),
+    })
+    .optional(),
+  settle: z
+    .object({
+      durationMs: z.number(),
+      waitedOn: z.array(z.enum(["navigation", "network", "dom"])),
+      timedOut: z.boolean(),
+      pendingRequests: z.array(z.string()).optional(),
+    })
+    .optional(),
+  effects: z
+    .object({
+      pageUrl: z.string(),
+      url: z.object({ from: z.string(), to: z.string() }).optional(),
+      title: z.object({ from: z.string(), to: z.string() }).optional(),
+      newTabs: z.array(z.string()).optional(),
+      dialogs: z.array(z.string()).optional(),
+      requests: z
+        .array(
+          z.object({
+            method: z.string(),
+            url: z.string(),
+            status: z.number().optional(),
+            failure: z.string().optional(),
+          }),
+        )
+        .optional(),
+      consoleErrors: z.array(z.string()).optional(),
+      elementsAdded: z.array(z.string()).optional(),
+      elementsRemoved: z.array(z.string()).optional(),
+    })
+    .optional(),
 });
 
 const stepResponseSchema = z.object({
   results: z.array(stepResultSchema),
   state: z.unknown().optional(),
   stateText: z.string().optional(),
+  diff: z.unknown().optional(),
   error: z.string().optional(),
 });
 
 const waitResponseSchema = z.object({
   state: z.unknown().optional(),
   stateText: z.string().optional(),
+  diff: z.unknown().optional(),
 });
 
 // runCommand, runStepActions, formatStepText, formatWaitText are imported from ./commands
@@ -296,9 +362,13 @@ async function runCommand(session: ServerSession, command: Command) {
 async function runStepActions(
   session: ServerSession,
   actions: StepAction[],
-  haltOnError: boolean,
+  options: {
+    haltOnError: boolean;
+    retryStale: boolean;
+    settle?: SettleSetting;
+  },
 ) {
-  return executeActions(session.browser, actions, { haltOnError });
+  return executeActions(session.browser, actions, options);
 }
 
 // Route definitions
@@ -607,10 +677,12 @@ const stateRoute = createRoute({
   path: "/session/{sessionId}/state",
   request: {
     params: sessionParamsSchema,
+    query: stateQuerySchema,
   },
   responses: {
     200: {
-      description: "Session state as plain text",
+      description:
+        "Session state as plain text (or changes since the last state with ?diff=true)",
       content: {
         "text/plain": {
           schema: z.string(),
@@ -828,31 +900,39 @@ export function startBrowserServer(config: BrowserServerConfig) {
     async (c) => {
       const { sessionId } = c.req.valid("param");
       const session = getSessionOrThrow(sessions, sessionId);
-      const { actions, state, includeState, includeStateText, haltOnError } =
-        c.req.valid("json");
+      const {
+        actions,
+        state,
+        includeState,
+        includeStateText,
+        includeDiff,
+        haltOnError,
+        retryStale,
+        settle,
+      } = c.req.valid("json");
 
       return withSession(session, async () => {
-        const results = await runStepActions(session, actions, haltOnError);
+        const results = await runStepActions(session, actions, {
+          haltOnError,
+          retryStale,
+          settle,
+        });
         const hasError = results.some((r) => r.error != null);
 
-        let stateResult: unknown;
-        let stateTextResult: string | undefined;
-        if (includeState || includeStateText) {
-          const currentState = await session.browser.getState(state);
-          if (includeState) {
-            stateResult = currentState;
-          }
-          if (includeStateText) {
-            stateTextResult = formatStateText(currentState);
-          }
-        }
+        const stateResult = await getStateWithFormat(session.browser, {
+          stateOptions: state,
+          includeState,
+          includeStateText,
+          includeDiff,
+        });
 
         if (wantsJsonResponse(c)) {
           return c.json(
             {
               results,
-              state: stateResult,
-              stateText: stateTextResult,
+              state: stateResult.state,
+              stateText: stateResult.stateText,
+              diff: stateResult.diff,
               error: hasError ? "One or more actions failed" : undefined,
             },
             200,
@@ -860,7 +940,11 @@ export function startBrowserServer(config: BrowserServerConfig) {
         }
 
         return c.text(
-          formatStepText({ results, stateText: stateTextResult }),
+          formatStepText({
+            results,
+            stateText: stateResult.stateText,
+            diffText: stateResult.diffText,
+          }),
           200,
         );
       });
@@ -879,7 +963,8 @@ export function startBrowserServer(config: BrowserServerConfig) {
       const session = getSessionOrThrow(sessions, sessionId);
       const data = c.req.valid("json");
       const condition = getWaitCondition(data);
-      const { timeoutMs, includeState, includeStateText, state } = data;
+      const { timeoutMs, includeState, includeStateText, includeDiff, state } =
+        data;
 
       return withSession(session, async () => {
         try {
@@ -896,27 +981,30 @@ export function startBrowserServer(config: BrowserServerConfig) {
           throw error;
         }
 
-        let stateResult: unknown;
-        let stateTextResult: string | undefined;
-        if (includeState || includeStateText) {
-          const currentState = await session.browser.getState(state);
-          if (includeState) {
-            stateResult = currentState;
-          }
-          if (includeStateText) {
-            stateTextResult = formatStateText(currentState);
-          }
-        }
+        const stateResult = await getStateWithFormat(session.browser, {
+          stateOptions: state,
+          includeState,
+          includeStateText,
+          includeDiff,
+        });
 
         if (wantsJsonResponse(c)) {
           return c.json(
-            { state: stateResult, stateText: stateTextResult },
+            {
+              state: stateResult.state,
+              stateText: stateResult.stateText,
+              diff: stateResult.diff,
+            },
             200,
           );
         }
 
         return c.text(
-          formatWaitText({ condition, stateText: stateTextResult }),
+          formatWaitText({
+            condition,
+            stateText: stateResult.stateText,
+            diffText: stateResult.diffText,
+          }),
           200,
         );
       });
@@ -961,8 +1049,18 @@ export function startBrowserServer(config: BrowserServerConfig) {
   app.openapi(stateRoute, async (c) => {
     const { sessionId } = c.req.valid("param");
     const session = getSessionOrThrow(sessions, sessionId);
+    const { diff } = c.req.valid("query");
 
     return withSession(session, async () => {
+      if (diff === "true") {
+        const result = await session.browser.getStateDiff();
+        return c.text(
+          result.diff
+            ? formatDiffText(result.diff)
+            : formatStateText(result.state),
+          200,
+        );
+      }
       const currentState = await session.browser.getState();
       return c.text(formatStateText(currentState), 200);
     });
@@ -0,0 +1,321 @@
+import type { Frame, Page, Request } from "playwright";
+import { z } from "zod";
+
+// ============================================================================
+// Settle Options
+// ============================================================================
+
+export const settleOptionsSchema = z.object({
+  /** DOM must stay unchanged this long (default: 200ms) */
+  quietMs: z.number().int().min(0).optional(),
+  /** Give up waiting after this long (default: 5000ms) */
+  timeoutMs: z.number().int().positive().optional(),
+});
+
+export type SettleOptions = z.infer<typeof settleOptionsSchema>;
+
+/**
+ * true for the defaults, or options to tune the settle phase
+ */
+export const settleSchema = z.union([z.boolean(), settleOptionsSchema]);
+
+export type SettleSetting = z.infer<typeof settleSchema>;
+
+const DEFAULT_QUIET_MS = 200;
+const DEFAULT_TIMEOUT_MS = 5000;
+const POLL_MS = 50;
+
+/**
+ * What a settle phase waited for after an action
+ */
+export interface SettleReport {
+  durationMs: number;
+  /** Conditions that weren't met right away, in the order first seen */
+  waitedOn: Array<"navigation" | "network" | "dom">;
+  /** Gave up at timeoutMs before the page settled */
+  timedOut: boolean;
+  /** fetch/XHR URLs still in flight when it gave up */
+  pendingRequests?: string[];
+}
+
+/**
+ * Resolve a settle setting to concrete options (null when disabled)
+ */
+export function resolveSettleOptions(
+  setting: SettleSetting | undefined,
+): Required<SettleOptions> | null {
+  if (!setting) {
+    return null;
+  }
+  const options = setting === true ? {} : setting;
+  return {
+    quietMs: options.quietMs ?? DEFAULT_QUIET_MS,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+  };
+}
+
+/**
+ * Describe a settle report in a few words, e.g. "settled in 340ms (network, dom)"
+ */
+export function describeSettle(report: SettleReport): string {
+  const waited =
+    report.waitedOn.length > 0 ? ` (${report.waitedOn.join(", ")})` : "";
+  if (!report.timedOut) {
+    return `settled in ${report.durationMs}ms${waited}`;
+  }
+  const pending = report.pendingRequests?.length
+    ? `; pending: ${report.pendingRequests.join(", ")}`
+    : "";
+  return `did not settle within ${report.durationMs}ms${waited}${pending}`;
+}
+
+// ============================================================================
+// Settle Tracker
+// ============================================================================
+
+// Page-side record of the last DOM mutation
+interface SettleProbe {
+  last: number;
+  observer: MutationObserver;
+}
+
+const PROBE_KEY = "__agentBrowserSettle";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Resolve to null instead of hanging past the deadline
+ * (evaluate never returns while a dialog blocks the page)
+ */
+async function beforeDeadline<T>(
+  promise: Promise<T>,
+  deadline: number,
+): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), Math.max(0, deadline - Date.now()));
+  });
+  try {
+    return await Promise.race([promise.catch(() => null), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Watches the active tab from just before an action runs until it settles:
+ * fetch/XHR calls started by the action finish, any navigation loads,
+ * and the DOM stops changing for quietMs. When the action opens, switches,
+ * or closes a tab, it settles the tab that is active afterwards.
+ */
+export class SettleTracker {
+  private page: Page;
+  private getActivePage: () => Page | null;
+  private isPageBlocked: (page: Page) => boolean;
+  private inflight = new Set<Request>();
+  private navigated = false;
+  private disposed = false;
+
+  /**
+   * getActivePage returns the current tab (null when none is left);
+   * isBlocked reports an open dialog, which stops a page from settling
+   */
+  constructor(
+    page: Page,
+    getActivePage: () => Page | null,
+    isBlocked: (page: Page) => boolean,
+  ) {
+    this.page = page;
+    this.getActivePage = getActivePage;
+    this.isPageBlocked = isBlocked;
+  }
+
+  private isBlocked(): boolean {
+    return this.isPageBlocked(this.page);
+  }
+
+  private onRequest = (request: Request) => {
+    const type = request.resourceType();
+    if (type === "fetch" || type === "xhr") {
+      this.inflight.add(request);
+    }
+  };
+
+  private onRequestDone = (request: Request) => {
+    this.inflight.delete(request);
+  };
+
+  private onNavigated = (frame: Frame) => {
+    if (frame === this.page.mainFrame()) {
+      this.navigated = true;
+    }
+  };
+
+  /**
+   * Start watching (call before the action runs)
+   */
+  async start(): Promise<void> {
+    this.listen(this.page);
+    await this.installProbe(Date.now() + 1000);
+  }
+
+  private listen(page: Page): void {
+    page.on("request", this.onRequest);
+    page.on("requestfinished", this.onRequestDone);
+    page.on("requestfailed", this.onRequestDone);
+    page.on("framenavigated", this.onNavigated);
+  }
+
+  private unlisten(page: Page): void {
+    page.off("request", this.onRequest);
+    page.off("requestfinished", this.onRequestDone);
+    page.off("requestfailed", this.onRequestDone);
+    page.off("framenavigated", this.onNavigated);
+  }
+
+  /**
+   * Move to the tab that is active now, if the action changed it
+   * Returns false when there's no open tab left to settle.
+   */
+  private async followActivePage(deadline: number): Promise<boolean> {
+    const active = this.getActivePage();
+    if (!active || active.isClosed()) {
+      return false;
+    }
+    if (active !== this.page) {
+      const previous = this.page;
+      this.unlisten(previous);
+      this.page = active;
+      this.inflight.clear();
+      this.listen(active);
+      // Wait for the new tab to load, as after a navigation
+      this.navigated = true;
+      await this.removeProbe(previous, deadline);
+    }
+    return true;
+  }
+
+  private async installProbe(deadline: number): Promise<void> {
+    if (this.isBlocked()) {
+      return;
+    }
+    await beforeDeadline(
+      this.page.evaluate((key) => {
+        const w = window as unknown as Record<string, SettleProbe | undefined>;
+        const existing = w[key];
+        if (existing) {
+          existing.last = Date.now();
+          return;
+        }
+        const probe = { last: Date.now() } as SettleProbe;
+        probe.observer = new MutationObserver(() => {
+          probe.last = Date.now();
+        });
+        probe.observer.observe(document, {
+          subtree: true,
+          childList: true,
+          attributes: true,
+          characterData: true,
+        });
+        w[key] = probe;
+      }, PROBE_KEY),
+      deadline,
+    );
+  }
+
+  /**
+   * Milliseconds since the last DOM mutation (null if the probe is gone,
+   * e.g. after a navigation)
+   */
+  private async readQuietMs(deadline: number): Promise<number | null> {
+    return beforeDeadline(
+      this.page.evaluate((key) => {
+        const probe = (window as unknown as Record<string, SettleProbe>)[key];
+        return probe ? Date.now() - probe.last : null;
+      }, PROBE_KEY),
+      deadline,
+    );
+  }
+
+  /**
+   * Wait for the page to settle, then stop watching
+   */
+  async wait(options: Required<SettleOptions>): Promise<SettleReport> {
+    const start = Date.now();
+    const deadline = start + options.timeoutMs;
+    const waitedOn = new Set<SettleReport["waitedOn"][number]>();
+    let timedOut = false;
+
+    try {
+      while ((await this.followActivePage(deadline)) && !this.isBlocked()) {
+        if (Date.now() >= deadline) {
+          timedOut = true;
+          break;
+        }
+        if (this.navigated) {
+          waitedOn.add("navigation");
+          this.navigated = false;
+          await beforeDeadline(this.page.waitForLoadState("load"), deadline);
+          await this.installProbe(deadline);
+          continue;
+        }
+        if (this.inflight.size > 0) {
+          waitedOn.add("network");
+          await sleep(POLL_MS);
+          continue;
+        }
+        const quietMs = await this.readQuietMs(deadline);
+        if (quietMs == null) {
+          await this.installProbe(deadline);
+          await sleep(POLL_MS);
+          continue;
+        }
+        if (quietMs >= options.quietMs) {
+          break;
+        }
+        waitedOn.add("dom");
+        await sleep(Math.min(POLL_MS, options.quietMs - quietMs));
+      }
+    } finally {
+      await this.dispose();
+    }
+
+    return {
+      durationMs: Date.now() - start,
+      waitedOn: Array.from(waitedOn),
+      timedOut,
+      pendingRequests:
+        timedOut && this.inflight.size > 0
+          ? Array.from(this.inflight, (request) => request.url())
+          : undefined,
+    };
+  }
+
+  /**
+   * Stop watching and remove the page-side observer
+   */
+  async dispose(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.unlisten(this.page);
+    await this.removeProbe(this.page, Date.now() + 1000);
+  }
+
+  private async removeProbe(page: Page, deadline: number): Promise<void> {
+    if (this.isPageBlocked(page) || page.isClosed()) {
+      return;
+    }
+    await beforeDeadline(
+      page.evaluate((key) => {
+        const w = window as unknown as Record<string, SettleProbe | undefined>;
+        w[key]?.observer.disconnect();
+        delete w[key];
+      }, PROBE_KEY),
+      deadline,
+    );
+  }
+}
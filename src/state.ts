@@ -1,15 +1,19 @@
-import type { BrowserContext, Page } from "playwright";
-import type { ElementRefStore, ElementSelectors } from "./ref-store";
+import type { BrowserContext, Frame, Page } from "playwright";
+import { describeDialog } from "./dialogs";
+import { describeDownload } from "./downloads";
+import { describeRouteResponse } from "./mock";
+import type { ElementRefStore } from "./ref-store";
 import type {
   BrowserState,
   GetStateOptions,
   InteractiveElement,
+  NetworkEvent,
   ScrollPosition,
   TabInfo,
 } from "./types";
 
 /** Selectors for interactive elements */
-const INTERACTIVE_SELECTORS = [
+export const INTERACTIVE_SELECTORS = [
   "a[href]",
   "button",
   "input",
@@ -41,6 +45,11 @@ interface RawElementInfo {
   enabled: boolean;
   attributes: Record<string, string>;
   boundingBox: { x: number; y: number; width: number; height: number } | null;
+  inViewport: boolean;
+  percentVisible: number;
+  // Covering element: index of the interactive element it belongs to in
+  // this frame's results, or a selector when it isn't part of one
+  obscuredBy: { index: number | null; selector: string } | null;
   // Selector info for server-side storage
   xpath: string;
   cssPath: string;
@@ -54,18 +63,27 @@ interface RawElementInfo {
     type?: string;
     name?: string;
     placeholder?: string;
+    label?: string;
   };
 }
 
 /**
  * Extract interactive elements from the page WITHOUT modifying the DOM
+ * Walks into open shadow roots (closed ones aren't reachable).
  * Returns raw element info including selectors for server-side ref storage
  */
 async function extractInteractiveElementsRaw(
-  page: Page,
+  frame: Frame,
 ): Promise<RawElementInfo[]> {
-  return await page.evaluate((selector) => {
+  return await frame.evaluate((selector) => {
     // Helper functions (must be inside evaluate)
+
+    // Document or open shadow root an element lives in
+    const getRoot = (element: Element): Document | ShadowRoot => {
+      const root = element.getRootNode();
+      return root instanceof ShadowRoot ? root : document;
+    };
+
     const generateXPath = (element: Element): string => {
       const parts: string[] = [];
       let current: Element | null = element;
@@ -86,11 +104,18 @@ async function extractInteractiveElementsRaw(
         current = current.parentElement;
       }
 
+      // XPath can't cross shadow boundaries; this form is only used to
+      // recognize the element across snapshots, not to locate it
+      const root = getRoot(element);
+      if (root instanceof ShadowRoot) {
+        return `${generateXPath(root.host)}/#shadow-root/${parts.join("/")}`;
+      }
       return `/${parts.join("/")}`;
     };
 
     const generateCssPath = (element: Element): string => {
       const parts: string[] = [];
+      const root = getRoot(element);
       let current: Element | null = element;
 
       while (current && current.nodeType === Node.ELEMENT_NODE) {
@@ -99,7 +124,7 @@ async function extractInteractiveElementsRaw(
         const id = current.getAttribute("id");
         if (id) {
           try {
-            if (document.querySelectorAll(`#${CSS.escape(id)}`).length === 1) {
+            if (root.querySelectorAll(`#${CSS.escape(id)}`).length === 1) {
               parts.unshift(`#${CSS.escape(id)}`);
               break;
             }
@@ -124,6 +149,10 @@ async function extractInteractiveElementsRaw(
         current = current.parentElement;
       }
 
+      // Playwright CSS pierces open shadow roots, so chain from the host
+      if (root instanceof ShadowRoot) {
+        return `${generateCssPath(root.host)} >> ${parts.join(" > ")}`;
+      }
       return parts.join(" > ");
     };
 
@@ -165,7 +194,7 @@ async function extractInteractiveElementsRaw(
       }
       const parts = ids
         .split(/\s+/)
-        .map((id) => document.getElementById(id))
+        .map((id) => getRoot(el).getElementById(id))
         .filter((node): node is HTMLElement => Boolean(node))
         .map((node) => normalizeText(node.textContent))
         .filter(Boolean);
@@ -194,7 +223,7 @@ async function extractInteractiveElementsRaw(
       const id = el.getAttribute("id");
       if (id) {
         const selector = `label[for="${CSS.escape(id)}"]`;
-        const label = document.querySelector(selector);
+        const label = getRoot(el).querySelector(selector);
         if (label) {
           const text = normalizeText(label.textContent);
           if (text) {
@@ -232,8 +261,96 @@ async function extractInteractiveElementsRaw(
       return normalizeBase(tag);
     };
 
-    const elements = Array.from(document.querySelectorAll(selector));
+    // Walk the document and every open shadow root, in document order
+    // (shadow content follows its host)
+    const elements: Element[] = [];
+    const collect = (root: Document | ShadowRoot) => {
+      for (const el of Array.from(root.querySelectorAll("*"))) {
+        if (el.matches(selector)) {
+          elements.push(el);
+        }
+        if (el.shadowRoot) {
+          collect(el.shadowRoot);
+        }
+      }
+    };
+    collect(document);
+
+    // Parent element, stepping out of shadow roots to their host
+    const getParent = (el: Element): Element | null =>
+      el.parentElement ??
+      (el.getRootNode() instanceof ShadowRoot
+        ? (el.getRootNode() as ShadowRoot).host
+        : null);
+
+    const describeElement = (el: Element): string => {
+      const tag = el.tagName.toLowerCase();
+      if (el.id) {
+        return `${tag}#${el.id}`;
+      }
+      const classes = Array.from(el.classList).slice(0, 3);
+      return classes.length > 0 ? `${tag}.${classes.join(".")}` : tag;
+    };
+
+    // Sample a grid over the part of the element inside the viewport and
+    // check what's on top at each point (pointer-events: none is see-through)
+    const OCCLUSION_GRID = 3;
+    const measureVisibility = (el: HTMLElement, rect: DOMRect) => {
+      const left = Math.max(rect.left, 0);
+      const top = Math.max(rect.top, 0);
+      const right = Math.min(rect.right, window.innerWidth);
+      const bottom = Math.min(rect.bottom, window.innerHeight);
+      // Strict, so zero-size elements at 0,0 don't count as in view
+      const inViewport = right > left && bottom > top;
+      const area = rect.width * rect.height;
+      if (!inViewport || area === 0) {
+        return { inViewport, percentVisible: 0, cover: null };
+      }
+
+      const labels = Array.from((el as HTMLInputElement).labels ?? []);
+      const covers = new Map<Element, number>();
+      let clear = 0;
+      for (let i = 0; i < OCCLUSION_GRID; i++) {
+        for (let j = 0; j < OCCLUSION_GRID; j++) {
+          const x = left + ((right - left) * (i + 0.5)) / OCCLUSION_GRID;
+          const y = top + ((bottom - top) * (j + 0.5)) / OCCLUSION_GRID;
+          const hit = getRoot(el).elementFromPoint(x, y);
+          // Its own content, an ancestor (el isn't hit-testable there), or
+          // its label (clicks go through to it) don't count as covering
+          if (
+            !hit ||
+            el.contains(hit) ||
+            hit.contains(el) ||
+            labels.some((label) => label.contains(hit))
+          ) {
+            clear += 1;
+          } else {
+            covers.set(hit, (covers.get(hit) ?? 0) + 1);
+          }
+        }
+      }
+
+      let cover: Element | null = null;
+      let coverHits = 0;
+      for (const [hit, count] of covers) {
+        if (count > coverHits) {
+          cover = hit;
+          coverHits = count;
+        }
+      }
+      const inView = ((right - left) * (bottom - top)) / area;
+      return {
+        inViewport,
+        percentVisible: Math.round(
+          (100 * inView * clear) / (OCCLUSION_GRID * OCCLUSION_GRID),
+        ),
+        cover,
+      };
+    };
+
     const results: RawElementInfo[] = [];
+    const resultIndexes = new Map<Element, number>();
+    const covers: Array<{ el: Element; cover: Element | null }> = [];
 
     for (const el of elements) {
       const htmlEl = el as HTMLElement;
@@ -256,6 +373,10 @@ async function extractInteractiveElementsRaw(
         style.display !== "none" &&
         style.visibility !== "hidden" &&
         (rect.width > 0 || rect.height > 0);
+      const { inViewport, percentVisible, cover } = measureVisibility(
+        htmlEl,
+        rect,
+      );
 
       // Determine role
       let role = htmlEl.getAttribute("role") || "";
@@ -334,6 +455,8 @@ async function extractInteractiveElementsRaw(
       const cssPath = generateCssPath(htmlEl);
       const fingerprint = generateFingerprint(htmlEl);
 
+      resultIndexes.set(htmlEl, results.length);
+      covers.push({ el: htmlEl, cover });
       results.push({
         tag: htmlEl.tagName.toLowerCase(),
         role,
@@ -348,6 +471,9 @@ async function extractInteractiveElementsRaw(
           width: rect.width,
           height: rect.height,
         },
+        inViewport,
+        percentVisible,
+        obscuredBy: null,
         xpath,
         cssPath,
         fingerprint,
@@ -358,124 +484,406 @@ async function extractInteractiveElementsRaw(
           type: htmlEl.getAttribute("type") || undefined,
           name: fieldName || undefined,
           placeholder: placeholder || undefined,
+          label: name || text.slice(0, 50) || undefined,
         },
       });
     }
 
+    // Name each covering element by the interactive element it's part of
+    // (a modal's dialog or close button), if any. A container of the
+    // covered element doesn't count.
+    for (const [index, { el, cover }] of covers.entries()) {
+      if (!cover) {
+        continue;
+      }
+      let owner: Element | null = cover;
+      while (owner && !resultIndexes.has(owner)) {
+        owner = getParent(owner);
+      }
+      results[index].obscuredBy = {
+        index:
+          owner && !owner.contains(el)
+            ? (resultIndexes.get(owner) ?? null)
+            : null,
+        selector: describeElement(cover),
+      };
+    }
+
     return results;
   }, INTERACTIVE_SELECTORS);
 }
 
+/**
+ * Selector for a frame's <iframe> element within its parent frame
+ * Returns null for frames that aren't rendered (tracking pixels and the like)
+ */
+async function getFrameSelector(frame: Frame): Promise<string | null> {
+  const element = await frame.frameElement().catch(() => null);
+  if (!element) {
+    return null;
+  }
+  try {
+    return await element.evaluate((node) => {
+      const el = node as Element;
+      const rect = el.getBoundingClientRect();
+      const style = window.getComputedStyle(el);
+      if (
+        rect.width === 0 ||
+        rect.height === 0 ||
+        style.display === "none" ||
+        style.visibility === "hidden"
+      ) {
+        return null;
+      }
+
+      const tag = el.tagName.toLowerCase();
+      const root = el.getRootNode() as Document | ShadowRoot;
+      const isUnique = (selector: string) =>
+        root.querySelectorAll(selector).length === 1;
+
+      const id = el.getAttribute("id");
+      if (id && isUnique(`#${CSS.escape(id)}`)) {
+        return `#${CSS.escape(id)}`;
+      }
+      for (const attr of ["name", "title"]) {
+        const value = el.getAttribute(attr);
+        const selector = `${tag}[${attr}="${CSS.escape(value ?? "")}"]`;
+        if (value && isUnique(selector)) {
+          return selector;
+        }
+      }
+      const index = Array.from(root.querySelectorAll(tag)).indexOf(el);
+      return `${tag} >> nth=${index}`;
+    });
+  } catch {
+    // Frame detached mid-snapshot
+    return null;
+  } finally {
+    await element.dispose().catch(() => {});
+  }
+}
+
+interface ViewportRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+function intersectRects(a: ViewportRect, b: ViewportRect): ViewportRect | null {
+  const left = Math.max(a.left, b.left);
+  const top = Math.max(a.top, b.top);
+  const right = Math.min(a.right, b.right);
+  const bottom = Math.min(a.bottom, b.bottom);
+  return right > left && bottom > top ? { left, top, right, bottom } : null;
+}
+
+function rectArea(rect: ViewportRect | null): number {
+  return rect ? (rect.right - rect.left) * (rect.bottom - rect.top) : 0;
+}
+
+/**
+ * Where a child frame sits in the page viewport: its box, and the part of
+ * it the page shows (null when scrolled away or clipped by a parent frame)
+ */
+interface FramePlacement {
+  box: ViewportRect;
+  clip: ViewportRect | null;
+}
+
+/**
+ * Re-measure a child frame's elements against the page viewport
+ * In-page measurements only see the frame's own viewport, which is the
+ * whole iframe even when the iframe itself is off screen.
+ */
+function placeFrameElements(
+  raw: RawElementInfo[],
+  placement: FramePlacement,
+): RawElementInfo[] {
+  return raw.map((info) => {
+    if (!info.boundingBox || !info.inViewport) {
+      return info;
+    }
+    const { x, y, width, height } = info.boundingBox;
+    const rect = {
+      left: placement.box.left + x,
+      top: placement.box.top + y,
+      right: placement.box.left + x + width,
+      bottom: placement.box.top + y + height,
+    };
+    const shown = placement.clip ? intersectRects(rect, placement.clip) : null;
+    if (!shown) {
+      return {
+        ...info,
+        inViewport: false,
+        percentVisible: 0,
+        obscuredBy: null,
+      };
+    }
+    const inFrame = rectArea(intersectRects(rect, placement.box));
+    return {
+      ...info,
+      percentVisible:
+        inFrame > 0
+          ? Math.round((info.percentVisible * rectArea(shown)) / inFrame)
+          : 0,
+    };
+  });
+}
+
+/**
+ * Extract raw elements from the main frame and every rendered child frame
+ * (same-origin or not). Child frames are tagged with the chain of iframe
+ * selectors leading to them, for frameLocator.
+ */
+async function extractFrameElementsRaw(
+  page: Page,
+): Promise<Array<{ framePath?: string[]; raw: RawElementInfo[] }>> {
+  const main = page.mainFrame();
+  const paths = new Map<Frame, string[] | null>([[main, []]]);
+
+  const resolvePath = async (frame: Frame): Promise<string[] | null> => {
+    const known = paths.get(frame);
+    if (known !== undefined) {
+      return known;
+    }
+    const parent = frame.parentFrame();
+    const parentPath = parent ? await resolvePath(parent) : null;
+    const selector = parentPath ? await getFrameSelector(frame) : null;
+    const path = parentPath && selector ? [...parentPath, selector] : null;
+    paths.set(frame, path);
+    return path;
+  };
+
+  const viewport: ViewportRect = await main.evaluate(() => ({
+    left: 0,
+    top: 0,
+    right: window.innerWidth,
+    bottom: window.innerHeight,
+  }));
+  const placements = new Map<Frame, FramePlacement | null>();
+  const resolvePlacement = async (
+    frame: Frame,
+  ): Promise<FramePlacement | null> => {
+    const known = placements.get(frame);
+    if (known !== undefined) {
+      return known;
+    }
+    const parent = frame.parentFrame();
+    const parentClip =
+      !parent || parent === main
+        ? viewport
+        : ((await resolvePlacement(parent))?.clip ?? null);
+    const element = await frame.frameElement().catch(() => null);
+    // boundingBox is relative to the main frame's viewport, even when nested
+    const box = element ? await element.boundingBox().catch(() => null) : null;
+    await element?.dispose().catch(() => {});
+    const placement = box
+      ? {
+          box: {
+            left: box.x,
+            top: box.y,
+            right: box.x + box.width,
+            bottom: box.y + box.height,
+          },
+          clip: null as ViewportRect | null,
+        }
+      : null;
+    if (placement && parentClip) {
+      placement.clip = intersectRects(placement.box, parentClip);
+    }
+    placements.set(frame, placement);
+    return placement;
+  };
+
+  const results: Array<{ framePath?: string[]; raw: RawElementInfo[] }> = [
+    { raw: await extractInteractiveElementsRaw(main) },
+  ];
+
+  for (const frame of page.frames()) {
+    if (frame === main) {
+      continue;
+    }
+    const framePath = await resolvePath(frame);
+    if (!framePath) {
+      continue;
+    }
+    try {
+      const raw = await extractInteractiveElementsRaw(frame);
+      const placement = await resolvePlacement(frame);
+      results.push({
+        framePath,
+        raw: placement ? placeFrameElements(raw, placement) : raw,
+      });
+    } catch {
+      // Frame navigated or detached while we were reading it
+    }
+  }
+
+  return results;
+}
+
 /**
  * Extract interactive elements and store refs in the provided store
- * Returns InteractiveElement array with assigned refs
+ * Elements still on the page keep the ref they had in the previous
+ * snapshot; new ones are flagged isNew.
  */
 export async function extractInteractiveElements(
   page: Page,
   refStore: ElementRefStore,
-): Promise<InteractiveElement[]> {
-  const rawElements = await extractInteractiveElementsRaw(page);
-
-  // Clear and rebuild the ref store
-  refStore.clear();
-
-  // Track used refs and counters for generating unique refs
-  const counters: Record<string, number> = {};
-
-  return rawElements.map((raw, index) => {
-    // Generate unique ref
-    const base = raw.refBase;
-    const counter = counters[base] ?? 0;
-    const ref = `${base}_${counter}`;
-    counters[base] = counter + 1;
-
-    // Store selectors for later resolution
-    const selectors: ElementSelectors = {
-      xpath: raw.xpath,
-      cssPath: raw.cssPath,
-      fingerprint: raw.fingerprint ?? undefined,
-    };
-
-    refStore.set(ref, index, selectors, raw.fingerprintData);
-
+): Promise<{ elements: InteractiveElement[]; removedRefs: string[] }> {
+  // offset: position of the frame's first element, to map obscuredBy indexes
+  let offset = 0;
+  const rawElements = (await extractFrameElementsRaw(page)).flatMap(
+    ({ framePath, raw }) => {
+      const frameOffset = offset;
+      offset += raw.length;
+      return raw.map((info) => ({ ...info, framePath, frameOffset }));
+    },
+  );
+  // The first snapshot after a clear has nothing to compare against
+  const hasPrevious = refStore.getAllRefs().length > 0;
+
+  const { refs, newRefs, removedRefs } = refStore.reconcile(
+    rawElements.map((raw) => ({
+      refBase: raw.refBase,
+      // Store selectors for later resolution
+      selectors: {
+        xpath: raw.xpath,
+        cssPath: raw.cssPath,
+        fingerprint: raw.fingerprint ?? undefined,
+      },
+      fingerprint: raw.fingerprintData,
+      framePath: raw.framePath,
+    })),
+  );
+
+  const elements = rawElements.map((raw, index) => {
+    const ref = refs[index];
     return {
       index,
       role: raw.role,
       name: raw.name,
       text: raw.text,
       ref,
+      isNew: hasPrevious && newRefs.has(ref) ? true : undefined,
+      framePath: raw.framePath,
       visible: raw.visible,
       enabled: raw.enabled,
       boundingBox: raw.boundingBox === null ? undefined : raw.boundingBox,
+      inViewport: raw.inViewport,
+      percentVisible: raw.percentVisible,
+      obscuredBy: describeCover(raw.obscuredBy, raw.frameOffset, refs),
       attributes: raw.attributes,
     };
   });
+
+  return { elements, removedRefs };
 }
 
 /**
- * Build a text representation of the page structure
+ * Ref of the element covering another, or its selector when it has no ref
  */
-async function buildAccessibilityTree(
-  page: Page,
-  maxLines?: number,
-): Promise<string> {
-  return await page.evaluate((limit) => {
-    const lines: string[] = [];
-
-    function traverse(node: Element, depth: number): void {
-      const indent = "  ".repeat(depth);
-      const tag = node.tagName.toLowerCase();
-      const role = node.getAttribute("role") || "";
-
-      // Skip script, style, etc
-      if (["script", "style", "noscript", "svg", "path"].includes(tag)) {
-        return;
-      }
+function describeCover(
+  cover: RawElementInfo["obscuredBy"],
+  frameOffset: number,
+  refs: string[],
+): string | undefined {
+  if (!cover) {
+    return undefined;
+  }
+  return cover.index != null ? refs[frameOffset + cover.index] : cover.selector;
+}
 
-      // Build line
-      let line = `${indent}- ${role || tag}`;
+// Appended to each node by ariaSnapshot({ boxes: true })
+const ARIA_BOX_PATTERN = / \[box=(-?\d+),(-?\d+),(-?\d+),(-?\d+)\]/;
 
-      // Add text content for leaf nodes
-      if (node.children.length === 0) {
-        const text = node.textContent?.trim().slice(0, 50);
-        if (text) {
-          line += ` "${text}"`;
-        }
-      } else {
-        // For non-leaf, show aria-label or similar
-        const label =
-          node.getAttribute("aria-label") || node.getAttribute("title");
-        if (label) {
-          line += ` "${label}"`;
-        }
-      }
-
-      // Add relevant attributes
-      const id = node.getAttribute("id");
-      if (id) line += ` #${id}`;
+function boxKey(box: {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}): string {
+  return [box.x, box.y, box.width, box.height].map(Math.round).join(",");
+}
 
-      const className = node.className;
-      if (className && typeof className === "string") {
-        const classes = className.split(" ").slice(0, 2).join(".");
-        if (classes) line += ` .${classes}`;
-      }
+/**
+ * Replace the bounding boxes in an ARIA snapshot with element refs
+ * Interactive elements are matched to tree nodes by bounding box. A wrapper
+ * can share its child's box, so matching nodes with the same role win; any
+ * element still unmatched goes to the deepest node with its box.
+ * The snapshot covers the main frame only; iframe elements have
+ * frame-relative boxes and are left out so they can't take a main-frame
+ * node's ref.
+ */
+export function annotateAriaSnapshot(
+  snapshot: string,
+  elements: InteractiveElement[],
+): string {
+  const lines = snapshot.split("\n").map((text) => {
+    const match = ARIA_BOX_PATTERN.exec(text);
+    return {
+      text,
+      box: match ? match.slice(1).join(",") : null,
+      role: /^\s*- ['"]?([\w-]+)/.exec(text)?.[1],
+      ref: undefined as string | undefined,
+    };
+  });
 
-      lines.push(line);
+  const unmatched = new Map<string, InteractiveElement[]>();
+  for (const el of elements) {
+    if (!el.boundingBox || el.framePath?.length) {
+      continue;
+    }
+    const key = boxKey(el.boundingBox);
+    const bucket = unmatched.get(key);
+    if (bucket) {
+      bucket.push(el);
+    } else {
+      unmatched.set(key, [el]);
+    }
+  }
 
-      // Recurse children (limit depth for performance)
-      if (depth < 6) {
-        for (const child of Array.from(node.children)) {
-          traverse(child, depth + 1);
-        }
-      }
+  for (const line of lines) {
+    const bucket = line.box ? unmatched.get(line.box) : undefined;
+    const index = bucket?.findIndex((el) => el.role === line.role) ?? -1;
+    if (bucket && index !== -1) {
+      line.ref = bucket[index].ref;
+      bucket.splice(index, 1);
     }
+  }
 
-    traverse(document.body, 0);
-    if (!limit || limit <= 0) {
-      return lines.join("\n");
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i];
+    const bucket = line.box ? unmatched.get(line.box) : undefined;
+    if (!line.ref && bucket?.length) {
+      // Walking backwards, so pop keeps document order between duplicates
+      line.ref = bucket.pop()?.ref;
     }
-    return lines.slice(0, limit).join("\n");
-  }, maxLines ?? 0);
+  }
+
+  return lines
+    .map((line) =>
+      line.text.replace(ARIA_BOX_PATTERN, line.ref ? ` [ref=${line.ref}]` : ""),
+    )
+    .join("\n");
+}
+
+/**
+ * Build the accessibility tree from the browser's ARIA snapshot
+ * Shows computed roles, names, and states (checked, expanded, selected,
+ * disabled, heading levels), with interactive nodes tagged by ref.
+ * Open shadow roots are included, so web components show up too.
+ */
+async function buildAccessibilityTree(
+  page: Page,
+  elements: Promise<{ elements: InteractiveElement[] }>,
+): Promise<string> {
+  const [snapshot, resolved] = await Promise.all([
+    page.locator("body").ariaSnapshot({ boxes: true }),
+    elements,
+  ]);
+  return annotateAriaSnapshot(snapshot, resolved.elements);
 }
 
 /**
@@ -520,35 +928,125 @@ async function getTabsInfo(
   return tabs;
 }
 
+/**
+ * Format one interactive element as a state line
+ */
+export function formatElementLine(el: InteractiveElement): string {
+  const attrs = Object.entries(el.attributes)
+    .map(([k, v]) => `${k}="${v}"`)
+    .join(" ");
+  const visibility = !el.inViewport
+    ? " [offscreen]"
+    : el.obscuredBy
+      ? ` [obscured by ${el.obscuredBy}]`
+      : "";
+  return `[${el.index}] ref=${el.ref} ${el.role} "${el.name || el.text}"${attrs ? ` (${attrs})` : ""}${el.enabled ? "" : " [disabled]"}${visibility}${el.isNew ? " [new]" : ""}`;
+}
+
+/**
+ * Format a network event as a one-line summary
+ */
+export function formatNetworkEventLine(event: NetworkEvent): string {
+  if (event.type === "failed") {
+    return `[${event.id}] failed ${event.method} ${event.url}${event.failureText ? ` (${event.failureText})` : ""}`;
+  }
+  if (event.status) {
+    return `[${event.id}] ${event.status} ${event.method} ${event.url}`;
+  }
+  return `[${event.id}] ${event.type} ${event.method} ${event.url}`;
+}
+
 export function formatStateText(state: BrowserState): string {
   const lines: string[] = [
     `URL: ${state.url}`,
     `Title: ${state.title}`,
     `Tabs: ${state.tabs.length}`,
+  ];
+
+  if (state.tabs.length > 1) {
+    for (const tab of state.tabs) {
+      lines.push(
+        `  [${tab.id}]${tab.active ? " (active)" : ""} "${tab.title}" ${tab.url}`,
+      );
+    }
+  }
+
+  if (state.history && state.history.entries.length > 1) {
+    const { currentIndex, entries } = state.history;
+    const back = entries[currentIndex - 1];
+    const forward = entries[currentIndex + 1];
+    const neighbours = [
+      back ? `back: ${back.url}` : undefined,
+      forward ? `forward: ${forward.url}` : undefined,
+    ].filter(Boolean);
+    lines.push(
+      `History: ${currentIndex + 1} of ${entries.length} (${neighbours.join(", ")})`,
+    );
+  }
+
+  if (state.dialogs?.length) {
+    lines.push("", "Dialogs:");
+    for (const dialog of state.dialogs) {
+      lines.push(
+        `  [${dialog.id}] ${describeDialog(dialog)} -> ${dialog.outcome ?? "open"}`,
+      );
+    }
+    if (state.dialogs.some((dialog) => !dialog.outcome)) {
+      lines.push(
+        "  The page is blocked until the dialog is answered (dialog:accept or dialog:dismiss)",
+      );
+    }
+  }
+
+  lines.push(
     "",
     `Scroll: ${state.scrollPosition.pixelsAbove}px above, ${state.scrollPosition.pixelsBelow}px below`,
     "",
     "Interactive Elements:",
-  ];
+  );
 
   if (state.elements.length === 0) {
     lines.push("  (none)");
   } else {
+    // Frame elements follow the main frame's, grouped per frame
+    let currentFrame: string | undefined;
     for (const el of state.elements) {
-      const attrs = Object.entries(el.attributes)
-        .map(([k, v]) => `${k}="${v}"`)
-        .join(" ");
-      lines.push(
-        `  [${el.index}] ref=${el.ref} ${el.role} "${el.name || el.text}"${attrs ? ` (${attrs})` : ""}${el.enabled ? "" : " [disabled]"}`,
-      );
+      const frame = el.framePath?.join(" >> ");
+      if (frame && frame !== currentFrame) {
+        lines.push(`  Frame ${frame}:`);
+      }
+      currentFrame = frame;
+      lines.push(`${frame ? "    " : "  "}${formatElementLine(el)}`);
     }
   }
 
+  if (state.removedRefs?.length) {
+    lines.push(`Removed: ${state.removedRefs.join(", ")}`);
+  }
+
   if (state.accessibilityTree) {
     lines.push("", "Accessibility Tree:");
     lines.push(state.accessibilityTree);
   }
 
+  if (state.routes?.length) {
+    lines.push("", "Routes:");
+    for (const route of state.routes) {
+      const method = route.method ? `${route.method.toUpperCase()} ` : "";
+      const pattern = route.regex ? `/${route.url}/` : route.url;
+      lines.push(
+        `  [${route.id}] ${method}${pattern} -> ${describeRouteResponse(route)} (${route.hits} hits)`,
+      );
+    }
+  }
+
+  if (state.downloads?.length) {
+    lines.push("", "Downloads:");
+    for (const download of state.downloads) {
+      lines.push(`  [${download.id}] ${describeDownload(download)}`);
+    }
+  }
+
   const consoleErrors = state.errors?.console ?? [];
   const networkErrors = state.errors?.network ?? [];
   if (consoleErrors.length > 0 || networkErrors.length > 0) {
@@ -562,15 +1060,7 @@ export function formatStateText(state: BrowserState): string {
     if (networkErrors.length > 0) {
       lines.push("Network:");
       for (const event of networkErrors.slice(-10)) {
-        if (event.type === "failed") {
-          lines.push(
-            `  - failed ${event.method} ${event.url}${event.failureText ? ` (${event.failureText})` : ""}`,
-          );
-        } else if (event.status) {
-          lines.push(`  - ${event.status} ${event.method} ${event.url}`);
-        } else {
-          lines.push(`  - ${event.type} ${event.method} ${event.url}`);
-        }
+        lines.push(`  - ${formatNetworkEventLine(event)}`);
       }
     }
   }
@@ -592,6 +1082,7 @@ export async function getState(
     includeScreenshot = false,
     includeElements = true,
     includeTree = true,
+    viewportOnly = false,
     elementsLimit,
     elementsHead,
     elementsTail,
@@ -605,6 +1096,7 @@ export async function getState(
 
   // Extract state in parallel - NO DOM MODIFICATION
   // Always rebuild refs even if elements aren't returned.
+  const elementsPromise = extractInteractiveElements(page, refStore);
   const [
     url,
     title,
@@ -615,12 +1107,17 @@ export async function getState(
   ] = await Promise.all([
     page.url(),
     page.title(),
-    extractInteractiveElements(page, refStore),
-    includeTree ? buildAccessibilityTree(page, treeLimit) : "",
+    elementsPromise,
+    includeTree ? buildAccessibilityTree(page, elementsPromise) : "",
     getScrollPosition(page),
     getTabsInfo(context, page),
   ]);
-  const elements = includeElements ? elementsSnapshot : [];
+  // Refs are assigned to every element either way, so they stay stable
+  // when the page scrolls
+  const elements = includeElements
+    ? elementsSnapshot.elements.filter((el) => !viewportOnly || el.inViewport)
+    : [];
+  const { removedRefs } = elementsSnapshot;
 
   // Optional screenshot
   let screenshot: string | undefined;
@@ -646,6 +1143,7 @@ export async function getState(
       tail: treeTail,
       limit: treeLimit,
     }),
+    removedRefs: removedRefs.length > 0 ? removedRefs : undefined,
     scrollPosition,
     screenshot,
   };
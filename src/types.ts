@@ -1,4 +1,9 @@
-import type { Browser, BrowserContext, Page } from "playwright";
+import type { Browser, BrowserContext, Page, Request } from "playwright";
+import type { DialogInfo, DialogPolicy } from "./dialogs";
+import type { DownloadInfo } from "./downloads";
+import type { ElementLocator } from "./locator";
+import type { RouteInfo, RouteRule } from "./mock";
+import type { NetworkRedactOptions } from "./redact";
 
 export interface BrowserConfig {
   /** Run browser without visible UI (default: true) */
@@ -25,6 +30,33 @@ export interface BrowserConfig {
   storageState?: string | StorageState;
   /** Storage state file path to initialize the context */
   storageStatePath?: string;
+  /** Record a Playwright trace (screenshots + DOM snapshots) from startup */
+  trace?: boolean;
+  /** Capture request/response headers and bodies (default: false) */
+  captureNetworkBodies?: boolean;
+  /** Max characters kept per captured body (default: 10000) */
+  networkBodyLimit?: number;
+  /** Extra header/field names to redact in captured details */
+  networkRedact?: NetworkRedactOptions;
+  /** Mock/interception rules registered when the browser starts */
+  routes?: RouteRule[];
+  /** Serve matching requests from a recorded HAR file */
+  routeFromHar?: HarReplayOptions;
+  /** How JavaScript dialogs are answered (default: dismiss) */
+  dialogPolicy?: DialogPolicy;
+  /** Directory downloads are saved into (default: a new temp directory per session) */
+  downloadsDir?: string;
+}
+
+export interface HarReplayOptions {
+  /** Path to the HAR file */
+  path: string;
+  /** Only serve requests matching this URL glob */
+  url?: string;
+  /** What to do with requests missing from the HAR (default: "abort") */
+  notFound?: "abort" | "fallback";
+  /** Record into the HAR instead of replaying (written when the session closes) */
+  update?: boolean;
 }
 
 export interface BrowserCliConfig extends BrowserConfig {
@@ -47,8 +79,12 @@ export interface InteractiveElement {
   name: string;
   /** Visible text content */
   text: string;
-  /** aria-ref for precise targeting */
+  /** aria-ref for precise targeting (stable across snapshots while the element stays) */
   ref: string;
+  /** Set when the ref first appeared in this snapshot */
+  isNew?: boolean;
+  /** Iframe selectors from the top page down (omitted for the main frame) */
+  framePath?: string[];
   /** Whether element is currently visible */
   visible: boolean;
   /** Whether element is enabled/not disabled */
@@ -60,6 +96,12 @@ export interface InteractiveElement {
     width: number;
     height: number;
   };
+  /** Whether any part of the element is in the page viewport (inside iframes too) */
+  inViewport: boolean;
+  /** Percent of the element that is in the viewport and not covered (sampled) */
+  percentVisible: number;
+  /** Ref of the element covering it (e.g. a modal), or a selector when that has no ref */
+  obscuredBy?: string;
   /** Element attributes (href, placeholder, etc.) */
   attributes: Record<string, string>;
 }
@@ -88,6 +130,13 @@ export interface ScrollPosition {
   viewportHeight: number;
 }
 
+export interface NavigationHistory {
+  /** Index of the current entry */
+  currentIndex: number;
+  /** Session history of the active tab, oldest first */
+  entries: Array<{ url: string; title: string }>;
+}
+
 export interface BrowserState {
   /** Current page URL */
   url: string;
@@ -97,10 +146,14 @@ export interface BrowserState {
   tabs: TabInfo[];
   /** Interactive elements on the page with indices */
   elements: InteractiveElement[];
-  /** ARIA accessibility tree as text */
+  /** Refs from the previous snapshot that are no longer on the page */
+  removedRefs?: string[];
+  /** ARIA snapshot of the page, with interactive nodes tagged [ref=...] */
   accessibilityTree: string;
   /** Current scroll position */
   scrollPosition: ScrollPosition;
+  /** Back/forward history of the active tab (omitted if unavailable) */
+  history?: NavigationHistory;
   /** Screenshot as base64 (optional, call with includeScreenshot: true) */
   screenshot?: string;
   /** Recent console + network errors (if available) */
@@ -108,6 +161,12 @@ export interface BrowserState {
     console: string[];
     network: NetworkEvent[];
   };
+  /** Active mock/interception rules (omitted when none) */
+  routes?: RouteInfo[];
+  /** Dialogs still open, then ones answered since the last state (omitted when none) */
+  dialogs?: DialogInfo[];
+  /** Files downloaded this session (omitted when none) */
+  downloads?: DownloadInfo[];
 }
 
 export interface StorageState {
@@ -140,11 +199,41 @@ export interface NetworkEvent {
   durationMs?: number;
 }
 
+/**
+ * Full detail for one network event (see getNetworkEvent)
+ * Headers and bodies are only present when captureNetworkBodies is enabled.
+ */
+export interface NetworkEventDetail extends NetworkEvent {
+  requestHeaders?: Record<string, string>;
+  requestBody?: string;
+  requestBodyTruncated?: boolean;
+  /** Request body length in bytes, before redaction and truncation */
+  requestBodySize?: number;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  responseBodyTruncated?: boolean;
+  /** Response body length in bytes, before redaction and truncation */
+  responseBodySize?: number;
+  /** responseBody is a placeholder for binary content, not the body */
+  responseBodyBinary?: boolean;
+  /** responseBody had sensitive fields replaced */
+  responseBodyRedacted?: boolean;
+}
+
+export interface NetworkActivity {
+  /** Requests that have started but not finished or failed */
+  inflight: Set<Request>;
+  /** Timestamp of the last request start/finish */
+  lastActivityAt: number;
+}
+
 export interface ClickOptions {
   /** Element reference (aria-ref) */
   ref?: string;
   /** Element index from state.elements */
   index?: number;
+  /** Semantic target, resolved at action time (instead of ref/index) */
+  locator?: ElementLocator;
   /** Double click */
   double?: boolean;
   /** Mouse button */
@@ -158,6 +247,8 @@ export interface TypeOptions {
   ref?: string;
   /** Element index from state.elements */
   index?: number;
+  /** Semantic target, resolved at action time (instead of ref/index) */
+  locator?: ElementLocator;
   /** Text to type */
   text: string;
   /** Press Enter after typing */
@@ -168,6 +259,94 @@ export interface TypeOptions {
   delay?: number;
 }
 
+/**
+ * Drag target: another element, or viewport coordinates
+ */
+export interface DragTarget {
+  ref?: string;
+  index?: number;
+  locator?: ElementLocator;
+  x?: number;
+  y?: number;
+}
+
+export interface DragOptions {
+  /** Element to pick up (aria-ref) */
+  ref?: string;
+  /** Element index from state.elements */
+  index?: number;
+  /** Semantic target, resolved at action time (instead of ref/index) */
+  locator?: ElementLocator;
+  /** Where to drop */
+  to: DragTarget;
+  /** Intermediate mouse moves between source and target (default: 10) */
+  steps?: number;
+}
+
+export interface PointerOptions {
+  /** Viewport x coordinate */
+  x: number;
+  /** Viewport y coordinate */
+  y: number;
+  /** Mouse button */
+  button?: "left" | "right" | "middle";
+}
+
+/**
+ * File to upload: a local path, or inline contents
+ */
+export type UploadFile =
+  | string
+  | {
+      name: string;
+      mimeType: string;
+      /** File contents, base64-encoded */
+      base64: string;
+    };
+
+export interface UploadOptions {
+  /** File input or dropzone reference (aria-ref) */
+  ref?: string;
+  /** Element index from state.elements */
+  index?: number;
+  /** Semantic target, resolved at action time (instead of ref/index) */
+  locator?: ElementLocator;
+  /** Files to set (several only if the input accepts multiple) */
+  files: UploadFile[];
+}
+
+/**
+ * Diagnostic details for one element (inspect)
+ */
+export interface ElementInspection {
+  /** Short description, e.g. button#save.primary */
+  element: string;
+  /** outerHTML, truncated to 1000 characters */
+  outerHTML: string;
+  outerHTMLTruncated: boolean;
+  /** Computed styles that decide whether the element can be seen and clicked */
+  styles: {
+    display: string;
+    visibility: string;
+    pointerEvents: string;
+    opacity: string;
+    zIndex: string;
+    position: string;
+    cursor: string;
+  };
+  boundingBox: { x: number; y: number; width: number; height: number };
+  /** role and aria-* attributes */
+  aria: Record<string, string>;
+  /** Whether the element's center is inside the viewport */
+  inViewport: boolean;
+  /** Element that receives clicks at the center instead (omitted when none) */
+  coveredBy?: string;
+  /** Event types with listeners on the element itself (null when unavailable) */
+  listeners: string[] | null;
+  /** Ancestors from the nearest parent up to body */
+  parents: string[];
+}
+
 export interface NavigateOptions {
   /** URL to navigate to */
   url: string;
@@ -175,6 +354,50 @@ export interface NavigateOptions {
   waitUntil?: "load" | "domcontentloaded" | "networkidle";
 }
 
+export interface ReloadOptions {
+  /** Wait until this load state */
+  waitUntil?: "load" | "domcontentloaded" | "networkidle";
+  /** Bypass the HTTP cache, like Shift+reload */
+  hard?: boolean;
+}
+
+/**
+ * Condition tree for waits. Every field set on one object must hold (AND);
+ * use `all`, `any`, and `not` to compose conditions.
+ */
+export interface WaitCondition {
+  /** CSS selector is visible */
+  selector?: string;
+  /** Text appears in the page body */
+  text?: string;
+  /** URL contains this string */
+  url?: string;
+  /** CSS selector is missing or hidden */
+  notSelector?: string;
+  /** Text is absent from the page body */
+  notText?: string;
+  /** Element ref is visible */
+  visible?: string;
+  /** Element ref is enabled */
+  enabled?: string;
+  /** Input value of a ref equals the given string */
+  value?: { ref: string; equals: string };
+  /** Number of elements matching a CSS selector */
+  count?: { selector: string; equals: number };
+  /** No requests in flight or started for this many ms */
+  networkIdleMs?: number;
+  /** No console errors logged since the wait started */
+  noConsoleErrors?: boolean;
+  /** No network responses with a 5xx status since the wait started */
+  noServerErrors?: boolean;
+  /** Every nested condition holds */
+  all?: WaitCondition[];
+  /** At least one nested condition holds */
+  any?: WaitCondition[];
+  /** Nested condition does not hold */
+  not?: WaitCondition;
+}
+
 export interface GetStateOptions {
   /** Include base64 screenshot (increases response size) */
   includeScreenshot?: boolean;
@@ -221,6 +444,14 @@ export interface DumpNetworkOptions {
   pretty?: boolean;
 }
 
+export interface HarOptions {
+  /**
+   * Only include entries whose response can be replayed as recorded
+   * (routeFromHar): bodies must be captured, textual, complete, and unredacted
+   */
+  replayable?: boolean;
+}
+
 export interface BrowserInstance {
   /** Underlying Playwright browser */
   browser: Browser;